@@ -0,0 +1,27 @@
+// Runs the tests of a file in the time zone named by its @timezone docblock
+// pragma, process.env.TZ set in a test doesn't reach Node
+const NodeEnvironment = require('jest-environment-node');
+
+class TimezoneEnvironment extends NodeEnvironment {
+  constructor(config, context) {
+    super(config, context);
+    this.timezone = context.docblockPragmas.timezone;
+  }
+
+  async setup() {
+    await super.setup();
+    this.previousTimezone = process.env.TZ;
+    process.env.TZ = this.timezone;
+  }
+
+  async teardown() {
+    if (this.previousTimezone === undefined) {
+      delete process.env.TZ;
+    } else {
+      process.env.TZ = this.previousTimezone;
+    }
+    await super.teardown();
+  }
+}
+
+module.exports = TimezoneEnvironment;
@@ -3,6 +3,7 @@ import React, {
   DragEventHandler,
   RefObject,
   useEffect,
+  useRef,
 } from 'react';
 import { fabric } from 'fabric';
 import { withSize } from 'react-sizeme';
@@ -16,6 +17,8 @@ export interface Props {
   style?: CSSProperties;
   canvasRef: RefObject<HTMLCanvasElement>;
   parentRef: RefObject<HTMLDivElement>;
+  // Page width in PDF points, objects are laid out in points
+  pageWidth?: number;
 }
 
 const FabricJSCanvasWithoutSize = ({
@@ -25,10 +28,19 @@ const FabricJSCanvasWithoutSize = ({
   style,
   canvasRef,
   parentRef,
+  pageWidth,
 }: Props) => {
+  // Read by the resize listener, which is only bound once
+  const pageWidthRef = useRef(pageWidth);
+  pageWidthRef.current = pageWidth;
+
   const setCurrentDimensions = (canvas: fabric.Canvas) => {
+    const width = parentRef?.current?.clientWidth || 0;
     canvas.setHeight(parentRef?.current?.clientHeight || 0);
-    canvas.setWidth(parentRef?.current?.clientWidth || 0);
+    canvas.setWidth(width);
+    if (pageWidthRef.current && width) {
+      canvas.setZoom(width / pageWidthRef.current);
+    }
     canvas.renderAll();
   };
 
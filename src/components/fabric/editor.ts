@@ -1,6 +1,22 @@
 import { useEffect, useState } from 'react';
 import { fabric } from 'fabric';
-import { ITextboxOptions, Textbox } from 'fabric/fabric-impl';
+import {
+  IEllipseOptions,
+  IImageOptions,
+  IRectOptions,
+  ITextboxOptions,
+  Textbox,
+} from 'fabric/fabric-impl';
+import { FieldBinding } from '../utils/binding';
+import { BarcodeOptions } from '../utils/barcode';
+import { FieldFormat } from '../utils/format';
+import { ImageOptions } from '../utils/image';
+import { FieldOverflow } from '../utils/overflow';
+import { fontSizeMult, VerticalAlign } from '../utils/richtext';
+import { ObjectPreview } from '../utils/preview';
+import { ShapeType } from '../utils/shape';
+import { FieldTemplate } from '../utils/template';
+import { hasRule, VisibilityRule } from '../utils/visibility';
 
 const TextOptions: ITextboxOptions = {
   type: 'textbox',
@@ -13,7 +29,6 @@ const TextOptions: ITextboxOptions = {
   lockScalingY: true,
   lockSkewingX: true,
   lockSkewingY: true,
-  lockRotation: true,
   lockScalingFlip: true,
   lockUniScaling: true,
   editable: false,
@@ -22,6 +37,59 @@ const TextOptions: ITextboxOptions = {
   padding: 1,
 };
 
+// Repeating table lines are laid out inside this box when rendering
+const TableOptions: IRectOptions = {
+  left: 50,
+  top: 200,
+  width: 400,
+  height: 200,
+  fill: 'rgba(59, 130, 246, 0.05)',
+  stroke: '#3b82f6',
+  strokeWidth: 1,
+  strokeDashArray: [4, 4],
+  strokeUniform: true,
+  lockRotation: true,
+  data: { renderType: 'table' },
+};
+
+// White-out boxes hide the template text under merged values
+const ShapeOptions: Record<ShapeType, IEllipseOptions> = {
+  rect: { width: 150, height: 80, fill: '', stroke: '#000000', strokeWidth: 1 },
+  ellipse: { rx: 75, ry: 40, fill: '', stroke: '#000000', strokeWidth: 1 },
+  line: { stroke: '#000000', strokeWidth: 2 },
+  highlight: { width: 150, height: 20, fill: '#fde047', opacity: 0.4 },
+  whiteout: { width: 150, height: 20, fill: '#ffffff' },
+};
+
+// Boxes with a set number of lines are that tall whatever the sample text,
+// and the text moves down in them for middle and bottom alignment, like the
+// merged values do. Only field boxes are laid out this way.
+const textboxPrototype = fabric.Textbox.prototype;
+const fieldLayout = {
+  calcTextHeight(this: Textbox) {
+    const height = textboxPrototype.calcTextHeight.call(this);
+    const lines = this.data?.overflow?.maxLines;
+    if (!lines) {
+      return height;
+    }
+    const lineHeight = (this.lineHeight || 1.16) * (lines - 1) + 1;
+    return Math.max(height, (this.fontSize || 16) * fontSizeMult * lineHeight);
+  },
+  // eslint-disable-next-line no-underscore-dangle
+  _getTopOffset(this: Textbox) {
+    const factors: Record<string, number> = { middle: 0.5, bottom: 1 };
+    const factor = factors[this.data?.verticalAlign] || 0;
+    const height = this.height || 0;
+    const textHeight = textboxPrototype.calcTextHeight.call(this);
+    return -height / 2 + (height - textHeight) * factor;
+  },
+};
+
+const layoutField = (text: Textbox) => {
+  Object.assign(text, fieldLayout);
+  text.initDimensions();
+};
+
 const props = [
   'lockScalingY',
   'lockSkewingX',
@@ -31,9 +99,33 @@ const props = [
   'lockUniScaling',
 ];
 
+// Field settings kept in object data, next to the bound column
+const dataProps = [
+  'renderType',
+  'format',
+  'template',
+  'fontFile',
+  'barcode',
+  'image',
+  'shape',
+  'overflow',
+  'verticalAlign',
+  'visibility',
+];
+
 export interface Fieldbox extends Textbox {
   index: number;
+  label?: string;
   renderType: string;
+  format?: FieldFormat;
+  template?: FieldTemplate;
+  fontFile?: string;
+  barcode?: BarcodeOptions;
+  image?: ImageOptions;
+  shape?: ShapeType;
+  overflow?: FieldOverflow;
+  verticalAlign?: VerticalAlign;
+  visibility?: VisibilityRule;
 }
 
 export interface FabricJSEditor {
@@ -41,40 +133,136 @@ export interface FabricJSEditor {
   dump: () => any;
   load: (data: any) => void;
   addText: (text: string, extraOptions?: ITextboxOptions) => void;
+  addTable: (extraOptions?: IRectOptions) => void;
+  addImage: (src: string, extraOptions?: IImageOptions) => void;
+  addShape: (shape: ShapeType) => void;
+  updateObject: (options: Partial<fabric.Object>) => void;
+  updateData: (data: Record<string, unknown>) => void;
+  rotateSelected: (angle: number) => void;
+  setSnapAngle: (angle: number) => void;
+  setPreview: (
+    preview?: (o: fabric.Object) => ObjectPreview | undefined
+  ) => void;
   updateText: (extraOptions?: Partial<Fieldbox>) => void;
+  rebind: (targets: Record<string, FieldBinding | null>) => void;
+  refreshFont: (fontFamily: string) => void;
   deleteAll: () => void;
   deleteSelected: () => void;
 }
 
+// What an object looked like before it showed a record
+interface PreviewOriginal {
+  text?: string;
+  styles?: unknown;
+  height?: number;
+  opacity?: number;
+}
+
 const buildEditor = (canvas: fabric.Canvas): FabricJSEditor => {
+  let snapAngle = 0;
+  const originals = new Map<fabric.Object, PreviewOriginal>();
+  let preview: ((o: fabric.Object) => ObjectPreview | undefined) | undefined;
+
+  const restore = (o: fabric.Object) => {
+    const original = originals.get(o);
+    if (original) {
+      originals.delete(o);
+      o.set(original);
+      if (o.type === 'textbox') {
+        (o as Textbox).initDimensions();
+      }
+    }
+  };
+
+  canvas.on('object:added', (e) => e.target?.set({ snapAngle }));
+  // Objects with a visibility rule are marked, they're left out of some records
+  canvas.on('after:render', () => {
+    const ctx = canvas.getContext();
+    canvas.getObjects().forEach((o) => {
+      if (hasRule(o.data?.visibility)) {
+        const { left, top, width } = o.getBoundingRect();
+        ctx.save();
+        ctx.fillStyle = '#f59e0b';
+        ctx.beginPath();
+        ctx.arc(left + width, top, 4, 0, 2 * Math.PI);
+        ctx.fill();
+        ctx.restore();
+      }
+    });
+  });
+
+  const showPreview = () => {
+    canvas.getObjects().forEach(restore);
+    if (preview) {
+      canvas.getObjects().forEach((o) => {
+        const shown = preview && preview(o);
+        if (!shown) {
+          return;
+        }
+        const text = o as Textbox;
+        originals.set(o, {
+          opacity: o.opacity,
+          ...(shown.text !== undefined
+            ? { text: text.text, styles: text.styles, height: text.height }
+            : {}),
+        });
+        // Objects the record leaves out stay faintly visible
+        o.set({ opacity: (o.opacity ?? 1) * (shown.visible ? 1 : 0.15) });
+        if (shown.text !== undefined) {
+          text.set({ text: shown.text, styles: shown.styles });
+          text.initDimensions();
+        }
+      });
+    }
+    canvas.renderAll();
+  };
+
   return {
     canvas,
     dump: () => {
       return {
         objects: canvas.getObjects().map((o) => {
-          const out = o.toJSON(props);
+          // Record values shown in preview are never saved
+          const out = { ...o.toJSON(props), ...originals.get(o) };
           out.index = o.data && parseInt(o.data.index, 10);
-          out.renderType = o.data?.renderType || 'text';
+          out.label = o.data?.label;
+          dataProps.forEach((key) => {
+            out[key] = o.data && o.data[key];
+          });
+          out.renderType = out.renderType || 'text';
           return out;
         }),
       };
     },
     load: (data) => {
-      canvas.loadFromJSON(data, () => {});
-      canvas.getObjects().forEach((o, i) => {
-        if (data.objects[i].index !== undefined) {
-          o.data = {
-            index: data.objects[i].index,
-            renderType: data.objects[i].renderType,
-          };
-
-          // Handle legacy text type
-          if (o.type === 'text') {
-            o.type = 'textbox';
+      // Images load asynchronously, so data is restored as objects are created
+      originals.clear();
+      canvas.loadFromJSON(
+        data,
+        showPreview,
+        (json: Record<string, unknown>, o: fabric.Object) => {
+          if (json.index !== undefined) {
+            o.data = {
+              index: json.index,
+              label: json.label,
+            };
+            dataProps.forEach((key) => {
+              o.data[key] = json[key];
+            });
+
+            // Handle legacy text type
+            if (o.type === 'text') {
+              o.type = 'textbox';
+            }
+            // Fields couldn't be rotated before
+            if (o.type === 'textbox') {
+              o.lockRotation = false;
+              // The box height depends on the data
+              layoutField(o as Textbox);
+            }
           }
         }
-      });
-      canvas.renderAll();
+      );
     },
     addText: (text: string, extraOptions?: ITextboxOptions) => {
       const object = new fabric.Textbox(text, {
@@ -82,22 +270,142 @@ const buildEditor = (canvas: fabric.Canvas): FabricJSEditor => {
         ...extraOptions,
       });
       object.set({ text });
+      layoutField(object);
       canvas.add(object);
     },
+    addTable: (extraOptions?: IRectOptions) => {
+      canvas.add(new fabric.Rect({ ...TableOptions, ...extraOptions }));
+    },
+    addImage: (src: string, extraOptions?: IImageOptions) => {
+      fabric.Image.fromURL(src, (img) => {
+        // Fit large scans into the page
+        const scale = Math.min(1, 200 / (img.width || 200));
+        img.set({
+          left: 100,
+          top: 100,
+          scaleX: scale,
+          scaleY: scale,
+          data: { renderType: 'static' },
+          ...extraOptions,
+        });
+        canvas.add(img);
+        canvas.setActiveObject(img);
+        canvas.renderAll();
+      });
+    },
+    addShape: (shape: ShapeType) => {
+      const options = {
+        left: 100,
+        top: 100,
+        strokeWidth: 0,
+        strokeUniform: true,
+        ...ShapeOptions[shape],
+        data: { renderType: 'shape', shape },
+      };
+      let object: fabric.Object;
+      if (shape === 'ellipse') {
+        object = new fabric.Ellipse(options);
+      } else if (shape === 'line') {
+        object = new fabric.Line([100, 100, 250, 100], options);
+      } else {
+        object = new fabric.Rect(options);
+      }
+      canvas.add(object);
+      if (shape === 'whiteout') {
+        // Drawn first, so merged values end up on top of it
+        object.sendToBack();
+      }
+      canvas.setActiveObject(object);
+      canvas.renderAll();
+    },
+    updateObject: (options: Partial<fabric.Object>) => {
+      const object = canvas.getActiveObject();
+      if (object) {
+        restore(object);
+        object.set(options);
+        canvas.renderAll();
+      }
+    },
+    updateData: (data: Record<string, unknown>) => {
+      const object = canvas.getActiveObject();
+      if (object) {
+        restore(object);
+        object.data = { ...object.data, ...data };
+        canvas.renderAll();
+      }
+    },
+    rotateSelected: (angle: number) => {
+      const object = canvas.getActiveObject();
+      if (object && !object.lockRotation) {
+        object.rotate(((object.angle || 0) + angle) % 360);
+        object.setCoords();
+        canvas.renderAll();
+      }
+    },
+    setPreview: (values) => {
+      preview = values;
+      showPreview();
+    },
+    setSnapAngle: (angle: number) => {
+      // Zero lets objects rotate freely
+      snapAngle = angle;
+      canvas.getObjects().forEach((o) => o.set({ snapAngle }));
+    },
     updateText: (extraOptions?: Partial<Fieldbox>) => {
       const objects: any[] = canvas.getActiveObjects();
       if (objects.length && objects[0].type.includes('text')) {
         const textObject: Fieldbox = objects[0];
         if (extraOptions) {
-          extraOptions.data = {
-            ...textObject.data,
-            renderType: extraOptions.renderType,
-          };
+          // Edits apply to the layout, not to the record shown in preview
+          restore(textObject);
+          const data = { ...textObject.data };
+          dataProps.forEach((key) => {
+            if (key in extraOptions) {
+              data[key] = extraOptions[key as keyof Fieldbox];
+            }
+          });
+          extraOptions.data = data;
           textObject.set(extraOptions);
+          textObject.initDimensions();
+          textObject.setCoords();
           canvas.renderAll();
         }
       }
     },
+    rebind: (targets: Record<string, FieldBinding | null>) => {
+      canvas.getObjects().forEach(restore);
+      canvas.getObjects().forEach((o) => {
+        const label = o.data?.label;
+        if (label === undefined || targets[label] === undefined) {
+          return;
+        }
+
+        const target = targets[label];
+        if (!target) {
+          canvas.remove(o);
+          return;
+        }
+
+        o.data = { ...o.data, index: target.index, label: target.label };
+        const text = o as Textbox;
+        if (text.text === label) {
+          text.set({ text: target.label });
+        }
+      });
+      canvas.renderAll();
+    },
+    refreshFont: (fontFamily: string) => {
+      // Measurements made before the font loaded used a fallback font
+      fabric.util.clearFabricFontCache(fontFamily);
+      canvas.getObjects().forEach((o) => {
+        const text = o as Textbox;
+        if (text.fontFamily === fontFamily) {
+          text.initDimensions();
+          text.setCoords();
+        }
+      });
+      canvas.requestRenderAll();
+    },
     deleteAll: () => {
       canvas.getObjects().forEach((object) => canvas.remove(object));
       canvas.discardActiveObject();
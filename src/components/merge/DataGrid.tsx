@@ -0,0 +1,159 @@
+import React, { useMemo, useState } from 'react';
+import { DataHeader } from '../pdf/PdfEditor';
+import { RowMap } from '../utils/excel';
+import {
+  emptySelection,
+  isSelected,
+  parseRanges,
+  RowSelection,
+  toggleRecord,
+} from '../utils/selection';
+
+type DataGridProps = {
+  headers: DataHeader[];
+  records: RowMap[];
+  matched: Set<RowMap>;
+  selection: RowSelection;
+  onChange: (selection: RowSelection) => void;
+};
+
+// Rendering every row of a big sheet freezes the window
+const maxRows = 1000;
+
+const DataGrid = ({
+  headers,
+  records,
+  matched,
+  selection,
+  onChange,
+}: DataGridProps) => {
+  const [sortIndex, setSortIndex] = useState(-1);
+  const [sortDesc, setSortDesc] = useState(false);
+
+  const ranges = useMemo(() => {
+    try {
+      return parseRanges(selection.ranges);
+    } catch (e) {
+      return [];
+    }
+  }, [selection.ranges]);
+
+  const sorted = useMemo(() => {
+    const numbered = records.map((row, i) => ({ row, record: i + 1 }));
+    if (sortIndex === -1) {
+      return numbered;
+    }
+    return [...numbered].sort((a, b) => {
+      const x = `${a.row[sortIndex] ?? ''}`;
+      const y = `${b.row[sortIndex] ?? ''}`;
+      const result = x.localeCompare(y, undefined, { numeric: true });
+      return sortDesc ? -result : result;
+    });
+  }, [records, sortIndex, sortDesc]);
+
+  const allSelected = records.every((_r, i) =>
+    isSelected(i + 1, selection, ranges)
+  );
+
+  const handleSort = (index: number) => {
+    if (sortIndex === index) {
+      setSortDesc(!sortDesc);
+    } else {
+      setSortIndex(index);
+      setSortDesc(false);
+    }
+  };
+
+  const handleToggleAll = () => {
+    if (allSelected) {
+      onChange({
+        ...emptySelection,
+        excluded: records.map((_r, i) => i + 1),
+      });
+    } else {
+      onChange(emptySelection);
+    }
+  };
+
+  const sortMark = (index: number) => {
+    if (sortIndex !== index) {
+      return '';
+    }
+    return sortDesc ? ' ▼' : ' ▲';
+  };
+
+  return (
+    <section className="flex flex-col w-full space-y-1">
+      <div className="w-full overflow-auto border border-gray-200 rounded max-h-72">
+        <table className="min-w-full text-xs text-left">
+          <thead className="sticky top-0 bg-gray-200">
+            <tr>
+              <th className="px-2 py-1">
+                <input
+                  type="checkbox"
+                  checked={allSelected}
+                  onChange={handleToggleAll}
+                />
+              </th>
+              <th className="px-2 py-1">
+                <button
+                  type="button"
+                  className="font-bold outline-none focus:outline-none"
+                  onClick={() => handleSort(-1)}
+                >
+                  #
+                </button>
+              </th>
+              {headers.map(({ index, label }) => (
+                <th key={index} className="px-2 py-1 whitespace-nowrap">
+                  <button
+                    type="button"
+                    className="font-bold outline-none focus:outline-none"
+                    onClick={() => handleSort(index)}
+                  >
+                    {label}
+                    {sortMark(index)}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {sorted.slice(0, maxRows).map(({ row, record }) => (
+              <tr
+                key={record}
+                className={`border-t border-gray-100 ${
+                  matched.has(row) ? '' : 'opacity-40'
+                }`}
+              >
+                <td className="px-2 py-1">
+                  <input
+                    type="checkbox"
+                    checked={isSelected(record, selection, ranges)}
+                    onChange={() =>
+                      onChange(toggleRecord(selection, record, ranges))
+                    }
+                  />
+                </td>
+                <td className="px-2 py-1 opacity-70">{record}</td>
+                {headers.map(({ index }) => (
+                  <td key={index} className="px-2 py-1 truncate max-w-xs">
+                    {`${row[index] ?? ''}`}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {records.length > maxRows ? (
+        <small className="text-xs opacity-70">
+          Showing the first {maxRows} of {records.length} records, use ranges to
+          select the others
+        </small>
+      ) : null}
+    </section>
+  );
+};
+
+export default DataGrid;
@@ -6,7 +6,27 @@ import Tags from '@yaireo/tagify/dist/react.tagify';
 
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
 import { DataHeader, RenderPdfState } from '../pdf/PdfEditor';
-import { readExcelMeta } from '../utils/excel';
+import {
+  getRowsLimit,
+  groupRows,
+  readExcelMeta,
+  readSheet,
+  RowMap,
+} from '../utils/excel';
+import {
+  FilterCondition,
+  filterOperators,
+  filterRows,
+  RowFilter,
+} from '../utils/filter';
+import {
+  expandFileName,
+  FileCollision,
+  fileCollisions,
+} from '../utils/filename';
+import { emptySelection, RowSelection, selectRows } from '../utils/selection';
+import DataGrid from './DataGrid';
+import { useDebouncedEffect } from '../../helpers/effectHooks';
 import { SmtpConfigKey, SmtpConfigType } from '../email/Config';
 
 type MailMergeProps = {
@@ -16,7 +36,19 @@ type MailMergeProps = {
 const MailMerge = ({ configPath }: MailMergeProps) => {
   const [pdfConfig, setPdfConfig] = useState<RenderPdfState>();
   const [headers, setHeaders] = useState<DataHeader[]>([]);
+  // Documents to create, one per matching record or group
   const [rowsCount, setRowsCount] = useState(0);
+  const [matchCount, setMatchCount] = useState(0);
+  const [totalCount, setTotalCount] = useState(0);
+  const [filter, setFilter] = useState<RowFilter>({
+    join: 'and',
+    conditions: [],
+  });
+  const [filterError, setFilterError] = useState('');
+  const [records, setRecords] = useState<RowMap[]>([]);
+  const [matched, setMatched] = useState<Set<RowMap>>(new Set());
+  const [selection, setSelection] = useState<RowSelection>(emptySelection);
+  const [showGrid, setShowGrid] = useState(false);
   const [emailProgress, setEmailProgress] = useState(0);
   const [email, setEmail] = useState('');
   const [fileProgress, setFileProgress] = useState(0);
@@ -28,6 +60,8 @@ const MailMerge = ({ configPath }: MailMergeProps) => {
   const [emailIndex, setEmailIndex] = useState(0);
   const [combinePdf, setCombinePdf] = useState(true);
   const [outputPdf, setOutputPdf] = useState('');
+  const [fileTemplate, setFileTemplate] = useState('');
+  const [collision, setCollision] = useState<FileCollision>('suffix');
   const [smtpValid, setSmtpValid] = useState(false);
   const [tab, setTab] = useState('local');
 
@@ -42,10 +76,30 @@ const MailMerge = ({ configPath }: MailMergeProps) => {
 
   const loadConfig = async (fp: string) => {
     const pdfConf: RenderPdfState = await ipcRenderer.invoke('load-config', fp);
-    const { firstRow, rowCount } = await readExcelMeta(pdfConf.excelFile);
+    const { firstRow, rowCount } = await readExcelMeta(
+      pdfConf.excelFile,
+      pdfConf.dataOptions
+    );
+    const { rows } = readSheet(pdfConf.excelFile, getRowsLimit(), {
+      ...pdfConf.dataOptions,
+      filter: undefined,
+      selection: undefined,
+    });
     setHeaders(firstRow);
     setRowsCount(rowCount);
+    setTotalCount(rows.length);
+    setRecords(rows);
     setPdfConfig(pdfConf);
+    if (pdfConf.fileNaming) {
+      setFileTemplate(pdfConf.fileNaming.template);
+      setCollision(pdfConf.fileNaming.collision);
+    }
+    if (pdfConf.dataOptions?.filter) {
+      setFilter(pdfConf.dataOptions.filter);
+    }
+    if (pdfConf.dataOptions?.selection) {
+      setSelection(pdfConf.dataOptions.selection);
+    }
 
     const smtpConf: SmtpConfigType | undefined = await ipcRenderer.invoke(
       'get-store',
@@ -57,6 +111,92 @@ const MailMerge = ({ configPath }: MailMergeProps) => {
     setSmtpValid(smtpConf ? smtpConf.valid : false);
   };
 
+  const getMergeConfig = () => ({
+    ...pdfConfig,
+    dataOptions: { ...pdfConfig?.dataOptions, filter, selection },
+    fileNaming: fileTemplate.trim()
+      ? { template: fileTemplate, collision }
+      : undefined,
+  });
+
+  const groupBy = pdfConfig?.dataOptions?.groupBy;
+  const grouped = !!groupBy && groupBy.index !== -1;
+
+  // Name of the first record's file, shown as an example
+  let sampleName = '';
+  if (fileTemplate.trim() && records.length) {
+    const labels = headers.map((h) => h.label);
+    const first = records.find((r) => matched.has(r)) || records[0];
+    sampleName = expandFileName(first, labels, fileTemplate);
+  }
+
+  const fileNameInput = (id: string) => (
+    <input
+      id={id}
+      type="text"
+      className="flex-1"
+      placeholder="e.g. {Region}/{CustomerId} - {LastName}.pdf"
+      value={fileTemplate}
+      onChange={(e) => setFileTemplate(e.target.value)}
+    />
+  );
+
+  const countMatches = () => {
+    if (!pdfConfig) {
+      return;
+    }
+    try {
+      const labels = headers.map((h) => h.label);
+      const filtered = filterRows(records, labels, filter);
+      const selected = new Set(selectRows(records, selection));
+      const picked = filtered.filter((r) => selected.has(r));
+      setMatched(new Set(filtered));
+      setMatchCount(picked.length);
+      setRowsCount(
+        groupBy && grouped
+          ? groupRows(picked, labels, groupBy).length
+          : picked.length
+      );
+      setFilterError('');
+    } catch (e) {
+      setFilterError(e.message);
+    }
+  };
+
+  const handleAddCondition = () => {
+    setFilter({
+      ...filter,
+      conditions: [
+        ...filter.conditions,
+        {
+          index: headers.length ? headers[0].index : -1,
+          label: headers.length ? headers[0].label : undefined,
+          operator: 'eq',
+          value: '',
+        },
+      ],
+    });
+  };
+
+  const handleChangeCondition = (
+    idx: number,
+    changes: Partial<FilterCondition>
+  ) => {
+    setFilter({
+      ...filter,
+      conditions: filter.conditions.map((c, i) =>
+        i === idx ? { ...c, ...changes } : c
+      ),
+    });
+  };
+
+  const handleRemoveCondition = (idx: number) => {
+    setFilter({
+      ...filter,
+      conditions: filter.conditions.filter((_c, i) => i !== idx),
+    });
+  };
+
   const handleChangeSubject = (e: any) => {
     setSubject(e.detail.value);
   };
@@ -82,18 +222,36 @@ const MailMerge = ({ configPath }: MailMergeProps) => {
       emailIndex,
       subject,
       body,
-      pdfConfig
+      getMergeConfig()
     );
     setSending(false);
   };
 
   const handleSavePdf = async () => {
     setSaving(true);
-    const conf = { ...pdfConfig, combinePdf, outputPdf };
+    const conf = { ...getMergeConfig(), combinePdf, outputPdf };
     await ipcRenderer.invoke('save-pdf', conf);
     setSaving(false);
   };
 
+  // Kept for the editor's preview and the next time the window is opened
+  const saveSettings = () => {
+    if (pdfConfig) {
+      ipcRenderer.invoke('save-merge-settings', getMergeConfig());
+    }
+  };
+
+  useDebouncedEffect(
+    countMatches,
+    [pdfConfig, records, filter, selection],
+    300
+  );
+  useDebouncedEffect(
+    saveSettings,
+    [pdfConfig, filter, selection, fileTemplate, collision],
+    500
+  );
+
   useEffect(() => {
     loadConfig(configPath).catch((e) => alert(e.message));
 
@@ -111,6 +269,152 @@ const MailMerge = ({ configPath }: MailMergeProps) => {
 
   return (
     <section className="absolute inset-0 flex flex-col items-start justify-start px-8 py-6 space-y-8 overflow-x-hidden overflow-y-auto bg-gray-50">
+      <section className="flex flex-col w-full space-y-2">
+        <section className="flex items-center justify-between">
+          <p className="font-medium">Filter:</p>
+          <small
+            className={`text-xs text-right ${
+              filterError ? 'text-red-500' : 'opacity-70'
+            }`}
+          >
+            {filterError ||
+              `${matchCount} of ${totalCount} record${
+                totalCount === 1 ? '' : 's'
+              } match${
+                grouped
+                  ? `, ${rowsCount} group${rowsCount === 1 ? '' : 's'}`
+                  : ''
+              }`}
+          </small>
+        </section>
+
+        {filter.conditions.map((cond, idx) => {
+          const operator = filterOperators.find(
+            (o) => o.value === cond.operator
+          );
+          return (
+            // eslint-disable-next-line react/no-array-index-key
+            <div key={idx} className="flex items-center space-x-2">
+              {idx === 1 ? (
+                <select
+                  className="w-20"
+                  value={filter.join}
+                  onChange={(e) =>
+                    setFilter({
+                      ...filter,
+                      join: e.target.value as RowFilter['join'],
+                    })
+                  }
+                >
+                  <option value="and">AND</option>
+                  <option value="or">OR</option>
+                </select>
+              ) : (
+                <p className="w-20 px-1 uppercase">
+                  {idx === 0 ? 'Where' : filter.join}
+                </p>
+              )}
+              <select
+                className="w-40"
+                value={cond.index}
+                onChange={(e) => {
+                  const index = parseInt(e.target.value, 10);
+                  handleChangeCondition(idx, {
+                    index,
+                    label: headers.find((h) => h.index === index)?.label,
+                  });
+                }}
+              >
+                {headers.map(({ index, label }) => (
+                  <option key={index} value={index}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              <select
+                className="w-40"
+                value={cond.operator}
+                onChange={(e) =>
+                  handleChangeCondition(idx, {
+                    operator: e.target.value as FilterCondition['operator'],
+                  })
+                }
+              >
+                {filterOperators.map(({ value, label }) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              {operator?.unary ? (
+                <p className="flex-1" />
+              ) : (
+                <input
+                  type="text"
+                  className="flex-1"
+                  value={cond.value}
+                  onChange={(e) =>
+                    handleChangeCondition(idx, { value: e.target.value })
+                  }
+                />
+              )}
+              <button
+                type="button"
+                className="btn-link"
+                onClick={() => handleRemoveCondition(idx)}
+              >
+                <FontAwesomeIcon
+                  icon="times-circle"
+                  className="text-gray-400"
+                />
+              </button>
+            </div>
+          );
+        })}
+
+        <button
+          type="button"
+          className="self-start btn-link"
+          onClick={handleAddCondition}
+          disabled={!headers.length}
+        >
+          <FontAwesomeIcon icon="plus" className="mr-1" />
+          Add condition
+        </button>
+      </section>
+
+      <section className="flex flex-col w-full space-y-2">
+        <div className="flex items-center justify-between space-x-2">
+          <p className="font-medium">Records:</p>
+          <input
+            type="text"
+            className="flex-1"
+            placeholder="All records, or ranges like 5-20, 31"
+            value={selection.ranges}
+            onChange={(e) =>
+              setSelection({ ...selection, ranges: e.target.value })
+            }
+          />
+          <button
+            type="button"
+            className="btn-link"
+            onClick={() => setShowGrid(!showGrid)}
+          >
+            {showGrid ? 'Hide records' : 'Show records'}
+          </button>
+        </div>
+
+        {showGrid ? (
+          <DataGrid
+            headers={headers}
+            records={records}
+            matched={matched}
+            selection={selection}
+            onChange={setSelection}
+          />
+        ) : null}
+      </section>
+
       <div className="w-full border-b border-gray-200 dark:border-gray-700">
         <ul className="flex flex-wrap -mb-px">
           <li className="mr-2">
@@ -189,6 +493,36 @@ const MailMerge = ({ configPath }: MailMergeProps) => {
               </label>
             ) : null}
           </section>
+
+          {!combinePdf ? (
+            <section className="flex flex-col space-y-2">
+              <label
+                htmlFor="fileTemplate"
+                className="flex items-center space-x-2"
+              >
+                <p className="font-medium">File names:</p>
+                {fileNameInput('fileTemplate')}
+                <select
+                  value={collision}
+                  onChange={(e) =>
+                    setCollision(e.target.value as FileCollision)
+                  }
+                  title="When a file with the same name exists"
+                >
+                  {fileCollisions.map(({ value, label }) => (
+                    <option value={value} key={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <small className="text-xs opacity-70">
+                {sampleName
+                  ? `First file: ${sampleName}`
+                  : 'Columns in {braces}, slashes make folders next to the location. Empty for numbered files.'}
+              </small>
+            </section>
+          ) : null}
         </section>
 
         <section className="flex flex-col items-start justify-center space-y-8">
@@ -203,8 +537,8 @@ const MailMerge = ({ configPath }: MailMergeProps) => {
                   ? `1 PDF`
                   : `${rowsCount} PDF${rowsCount === 1 ? '' : 's'}`}
 
-                {` of ${rowsCount} record${
-                  rowsCount === 1 ? '' : 's'
+                {` of ${matchCount} record${
+                  matchCount === 1 ? '' : 's'
                 } will be created`}
               </p>
             )}
@@ -288,6 +622,18 @@ const MailMerge = ({ configPath }: MailMergeProps) => {
             />
           </div>
 
+          <div className="flex flex-col space-y-2">
+            <section className="flex items-center justify-between space-y-2">
+              <p className="font-medium">Attachment name:</p>
+              <small className="text-xs text-right opacity-70">
+                {sampleName
+                  ? `First attachment: ${sampleName.split('/').pop()}`
+                  : 'Columns in {braces}, the PDF name when empty'}
+              </small>
+            </section>
+            {fileNameInput('attachmentName')}
+          </div>
+
           <div className="flex flex-col space-y-2">
             <section className="flex items-center justify-between space-y-2">
               <p className="font-medium">Body:</p>
@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { BarcodeOptions, BarcodeType, getEcLevel } from '../utils/barcode';
+
+type BarcodeEditorProps = {
+  type?: BarcodeType;
+  options?: BarcodeOptions;
+  onChange: (options: BarcodeOptions) => void;
+};
+
+const BarcodeEditor = ({ type, options, onChange }: BarcodeEditorProps) => {
+  const [open, setOpen] = useState(false);
+  const current = options || {};
+
+  const handleChangeNumber = (key: keyof BarcodeOptions, value: string) => {
+    const n = parseFloat(value);
+    onChange({ ...current, [key]: Number.isNaN(n) ? undefined : n });
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        className="px-2 text-xs border rounded-sm h-7 whitespace-nowrap"
+        onClick={() => setOpen(true)}
+        disabled={!type}
+        title="Barcode options"
+      >
+        Options
+      </button>
+      {open && type ? (
+        <div className="absolute right-0 z-10">
+          <div
+            role="button"
+            aria-labelledby="cover"
+            className="fixed inset-0"
+            onClick={() => setOpen(false)}
+            onKeyPress={() => setOpen(false)}
+            tabIndex={0}
+          />
+          <section className="relative flex flex-col p-3 space-y-2 text-xs bg-white rounded shadow w-60">
+            {type.linear ? (
+              <>
+                <label
+                  htmlFor="barcodeText"
+                  className="flex items-center space-x-2"
+                >
+                  <input
+                    id="barcodeText"
+                    type="checkbox"
+                    checked={current.showText !== false}
+                    onChange={(e) =>
+                      onChange({ ...current, showText: e.target.checked })
+                    }
+                  />
+                  <span>Human-readable text</span>
+                </label>
+                <label
+                  htmlFor="barcodeHeight"
+                  className="flex flex-col space-y-1"
+                >
+                  <span>Bar height (mm):</span>
+                  <input
+                    id="barcodeHeight"
+                    type="number"
+                    min={1}
+                    placeholder="15"
+                    value={current.barHeight ?? ''}
+                    onChange={(e) =>
+                      handleChangeNumber('barHeight', e.target.value)
+                    }
+                  />
+                </label>
+              </>
+            ) : null}
+
+            <label htmlFor="barcodeQuiet" className="flex flex-col space-y-1">
+              <span>Quiet zone (modules):</span>
+              <input
+                id="barcodeQuiet"
+                type="number"
+                min={0}
+                placeholder="Default"
+                value={current.quietZone ?? ''}
+                onChange={(e) =>
+                  handleChangeNumber('quietZone', e.target.value)
+                }
+              />
+            </label>
+
+            {type.ecLevels ? (
+              <label htmlFor="barcodeEc" className="flex flex-col space-y-1">
+                <span>Error correction:</span>
+                <select
+                  id="barcodeEc"
+                  value={getEcLevel(type, current) || ''}
+                  onChange={(e) =>
+                    onChange({
+                      ...current,
+                      ecLevel: e.target.value || undefined,
+                    })
+                  }
+                >
+                  <option value="">Default</option>
+                  {type.ecLevels.map((level) => (
+                    <option value={level} key={level}>
+                      {level}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ) : null}
+          </section>
+        </div>
+      ) : null}
+    </div>
+  );
+};
+
+BarcodeEditor.defaultProps = {
+  type: undefined,
+  options: undefined,
+};
+
+export default BarcodeEditor;
@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { FieldFormat, formatTypes, FormatType } from '../utils/format';
+
+type FormatEditorProps = {
+  format?: FieldFormat;
+  disabled?: boolean;
+  onChange: (format?: FieldFormat) => void;
+};
+
+const patternHints: Record<FormatType, string> = {
+  date: 'e.g. dd/mm/yyyy',
+  number: 'e.g. #,##0.00',
+  currency: '',
+};
+
+const FormatEditor = ({ format, disabled, onChange }: FormatEditorProps) => {
+  const [open, setOpen] = useState(false);
+
+  const handleChange = (changes: Partial<FieldFormat>) => {
+    if (format) {
+      onChange({ ...format, ...changes });
+    }
+  };
+
+  const handleChangeDecimals = (value: string) => {
+    const decimals = parseInt(value, 10);
+    handleChange({ decimals: Number.isNaN(decimals) ? undefined : decimals });
+  };
+
+  const label = format
+    ? formatTypes.find((t) => t.value === format.type)?.label
+    : 'As in sheet';
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        className="px-2 text-xs border rounded-sm h-7 whitespace-nowrap"
+        onClick={() => setOpen(true)}
+        disabled={disabled}
+        title="Value format"
+      >
+        {label}
+      </button>
+      {open && !disabled ? (
+        <div className="absolute right-0 z-10">
+          <div
+            role="button"
+            aria-labelledby="cover"
+            className="fixed inset-0"
+            onClick={() => setOpen(false)}
+            onKeyPress={() => setOpen(false)}
+            tabIndex={0}
+          />
+          <section className="relative flex flex-col p-3 space-y-2 text-xs bg-white rounded shadow w-60">
+            <label htmlFor="formatType" className="flex flex-col space-y-1">
+              <span>Format:</span>
+              <select
+                id="formatType"
+                value={format?.type || ''}
+                onChange={(e) =>
+                  onChange(
+                    e.target.value
+                      ? { ...format, type: e.target.value as FormatType }
+                      : undefined
+                  )
+                }
+              >
+                <option value="">As in sheet</option>
+                {formatTypes.map(({ value, label: text }) => (
+                  <option value={value} key={value}>
+                    {text}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            {format && format.type !== 'currency' ? (
+              <label
+                htmlFor="formatPattern"
+                className="flex flex-col space-y-1"
+              >
+                <span>Pattern:</span>
+                <input
+                  id="formatPattern"
+                  type="text"
+                  placeholder={patternHints[format.type]}
+                  value={format.pattern || ''}
+                  onChange={(e) => handleChange({ pattern: e.target.value })}
+                />
+              </label>
+            ) : null}
+
+            {format?.type === 'currency' ? (
+              <label
+                htmlFor="formatCurrency"
+                className="flex flex-col space-y-1"
+              >
+                <span>Currency:</span>
+                <input
+                  id="formatCurrency"
+                  type="text"
+                  placeholder="e.g. EUR"
+                  value={format.currency || ''}
+                  onChange={(e) =>
+                    handleChange({ currency: e.target.value.toUpperCase() })
+                  }
+                />
+              </label>
+            ) : null}
+
+            {format && format.type !== 'date' ? (
+              <label
+                htmlFor="formatDecimals"
+                className="flex flex-col space-y-1"
+              >
+                <span>Decimals:</span>
+                <input
+                  id="formatDecimals"
+                  type="number"
+                  min={0}
+                  max={10}
+                  value={format.decimals ?? ''}
+                  onChange={(e) => handleChangeDecimals(e.target.value)}
+                />
+              </label>
+            ) : null}
+
+            {format ? (
+              <label htmlFor="formatLocale" className="flex flex-col space-y-1">
+                <span>Locale:</span>
+                <input
+                  id="formatLocale"
+                  type="text"
+                  placeholder="e.g. de-DE"
+                  value={format.locale || ''}
+                  onChange={(e) => handleChange({ locale: e.target.value })}
+                />
+              </label>
+            ) : null}
+          </section>
+        </div>
+      ) : null}
+    </div>
+  );
+};
+
+FormatEditor.defaultProps = {
+  format: undefined,
+  disabled: false,
+};
+
+export default FormatEditor;
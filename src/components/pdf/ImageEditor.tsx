@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import {
+  ImageFit,
+  imageFits,
+  ImageOptions,
+  MissingImage,
+  missingImages,
+} from '../utils/image';
+
+type ImageEditorProps = {
+  options?: ImageOptions;
+  disabled?: boolean;
+  onChange: (options: ImageOptions) => void;
+};
+
+const ImageEditor = ({ options, disabled, onChange }: ImageEditorProps) => {
+  const [open, setOpen] = useState(false);
+  const current = options || {};
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        className="px-2 text-xs border rounded-sm h-7 whitespace-nowrap"
+        onClick={() => setOpen(true)}
+        disabled={disabled}
+        title="Image options, the column holds a file path or a data: URI"
+      >
+        Options
+      </button>
+      {open && !disabled ? (
+        <div className="absolute right-0 z-10">
+          <div
+            role="button"
+            aria-labelledby="cover"
+            className="fixed inset-0"
+            onClick={() => setOpen(false)}
+            onKeyPress={() => setOpen(false)}
+            tabIndex={0}
+          />
+          <section className="relative flex flex-col p-3 space-y-2 text-xs bg-white rounded shadow w-60">
+            <label htmlFor="imageFit" className="flex flex-col space-y-1">
+              <span>Fit:</span>
+              <select
+                id="imageFit"
+                value={current.fit || 'contain'}
+                onChange={(e) =>
+                  onChange({ ...current, fit: e.target.value as ImageFit })
+                }
+              >
+                {imageFits.map(({ value, label }) => (
+                  <option value={value} key={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <label htmlFor="imageMissing" className="flex flex-col space-y-1">
+              <span>When the image is missing:</span>
+              <select
+                id="imageMissing"
+                value={current.missing || 'skip'}
+                onChange={(e) =>
+                  onChange({
+                    ...current,
+                    missing: e.target.value as MissingImage,
+                  })
+                }
+              >
+                {missingImages.map(({ value, label }) => (
+                  <option value={value} key={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </section>
+        </div>
+      ) : null}
+    </div>
+  );
+};
+
+ImageEditor.defaultProps = {
+  options: undefined,
+  disabled: false,
+};
+
+export default ImageEditor;
@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { MappingProposal, minScore } from '../utils/automap';
+
+type MappingReviewProps = {
+  title: string;
+  proposals: MappingProposal[];
+  headers: { index: number; label: string }[];
+  onApply: (proposals: MappingProposal[]) => void;
+  onClose: () => void;
+};
+
+const scoreColor = (score: number) => {
+  if (score >= 0.9) {
+    return 'text-green-600';
+  }
+  return score >= minScore ? 'text-yellow-600' : 'text-red-500';
+};
+
+const MappingReview = ({
+  title,
+  proposals,
+  headers,
+  onApply,
+  onClose,
+}: MappingReviewProps) => {
+  const [rows, setRows] = useState(
+    proposals.map((p) => ({ ...p, accepted: p.index !== -1 }))
+  );
+
+  const handleChange = (field: string, index: number) => {
+    setRows(
+      rows.map((r) =>
+        r.field === field
+          ? { ...r, index, score: 1, accepted: index !== -1 }
+          : r
+      )
+    );
+  };
+
+  const handleAccept = (field: string, accepted: boolean) => {
+    setRows(rows.map((r) => (r.field === field ? { ...r, accepted } : r)));
+  };
+
+  const accepted = rows.filter((r) => r.accepted && r.index !== -1);
+
+  return (
+    <div className="fixed inset-0 z-20 flex items-center justify-center bg-black bg-opacity-30">
+      <section className="flex flex-col w-2/3 p-6 space-y-4 bg-white rounded shadow-lg h-5/6">
+        <div className="flex items-center justify-between space-x-2">
+          <h2 className="text-lg font-bold">{title}</h2>
+          <button type="button" className="btn-link" onClick={onClose}>
+            <FontAwesomeIcon icon="times-circle" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left border-b">
+                <th className="p-1">Apply</th>
+                <th className="p-1">Form field</th>
+                <th className="p-1">Column</th>
+                <th className="p-1 text-right">Confidence</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((r) => (
+                <tr key={r.field} className="border-b border-dashed">
+                  <td className="p-1">
+                    <input
+                      type="checkbox"
+                      checked={r.accepted}
+                      disabled={r.index === -1}
+                      onChange={(e) => handleAccept(r.field, e.target.checked)}
+                    />
+                  </td>
+                  <td className="p-1 font-medium">{r.field}</td>
+                  <td className="p-1">
+                    <select
+                      className="h-7"
+                      value={r.index}
+                      onChange={(e) =>
+                        handleChange(r.field, parseInt(e.target.value, 10))
+                      }
+                    >
+                      {[{ index: -1, label: '---' }, ...headers].map((h) => (
+                        <option value={h.index} key={h.index}>
+                          {h.label}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className={`p-1 text-right ${scoreColor(r.score)}`}>
+                    {r.index === -1 ? '-' : `${Math.round(r.score * 100)}%`}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex items-center justify-end space-x-2">
+          <span className="text-sm opacity-70">
+            {accepted.length} of {rows.length} fields will be mapped
+          </span>
+          <button
+            type="button"
+            className="btn"
+            onClick={() => onApply(accepted)}
+            disabled={!accepted.length}
+          >
+            Apply
+          </button>
+        </div>
+      </section>
+    </div>
+  );
+};
+
+export default MappingReview;
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { FieldOverflow, OverflowMode, overflowModes } from '../utils/overflow';
+
+type OverflowEditorProps = {
+  overflow?: FieldOverflow;
+  disabled?: boolean;
+  onChange: (overflow?: FieldOverflow) => void;
+};
+
+const OverflowEditor = ({
+  overflow,
+  disabled,
+  onChange,
+}: OverflowEditorProps) => {
+  const [open, setOpen] = useState(false);
+  const current = overflow || {};
+
+  const handleChangeNumber = (key: keyof FieldOverflow, value: string) => {
+    const n = parseFloat(value);
+    onChange({ ...current, [key]: Number.isNaN(n) ? undefined : n });
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        className="px-2 text-xs border rounded-sm h-7 whitespace-nowrap"
+        onClick={() => setOpen(true)}
+        disabled={disabled}
+        title="What happens when a value is too long for the field"
+      >
+        Overflow
+      </button>
+      {open && !disabled ? (
+        <div className="absolute right-0 z-10">
+          <div
+            role="button"
+            aria-labelledby="cover"
+            className="fixed inset-0"
+            onClick={() => setOpen(false)}
+            onKeyPress={() => setOpen(false)}
+            tabIndex={0}
+          />
+          <section className="relative flex flex-col p-3 space-y-2 text-xs bg-white rounded shadow w-60">
+            <label htmlFor="overflowMode" className="flex flex-col space-y-1">
+              <span>When the value is too long:</span>
+              <select
+                id="overflowMode"
+                value={current.mode || ''}
+                onChange={(e) =>
+                  onChange(
+                    e.target.value
+                      ? { ...current, mode: e.target.value as OverflowMode }
+                      : undefined
+                  )
+                }
+              >
+                <option value="">Let it overflow</option>
+                {overflowModes.map(({ value, label }) => (
+                  <option value={value} key={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <label htmlFor="overflowLines" className="flex flex-col space-y-1">
+              <span>Lines in the box:</span>
+              <input
+                id="overflowLines"
+                type="number"
+                min={1}
+                placeholder="As shown in the editor"
+                value={current.maxLines ?? ''}
+                onChange={(e) => handleChangeNumber('maxLines', e.target.value)}
+              />
+            </label>
+
+            {current.mode === 'shrink' ? (
+              <label htmlFor="overflowMin" className="flex flex-col space-y-1">
+                <span>Minimum font size:</span>
+                <input
+                  id="overflowMin"
+                  type="number"
+                  min={1}
+                  placeholder="6"
+                  value={current.minSize ?? ''}
+                  onChange={(e) =>
+                    handleChangeNumber('minSize', e.target.value)
+                  }
+                />
+              </label>
+            ) : null}
+          </section>
+        </div>
+      ) : null}
+    </div>
+  );
+};
+
+OverflowEditor.defaultProps = {
+  overflow: undefined,
+  disabled: false,
+};
+
+export default OverflowEditor;
@@ -9,7 +9,7 @@ import { ipcRenderer } from 'electron';
 // @ts-ignore
 import pdfjsWorker from 'pdfjs-dist/build/pdf.worker.entry';
 import { StandardFonts, StandardFontValues } from 'pdf-lib';
-import { Rect } from 'fabric/fabric-impl';
+import { Ellipse, Image, Line, Rect } from 'fabric/fabric-impl';
 import { TwitterPicker } from 'react-color';
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
 import { SizeMe } from 'react-sizeme';
@@ -17,8 +17,77 @@ import { useLocation } from 'react-router-dom';
 
 import { IconName } from '@fortawesome/fontawesome-svg-core';
 import { FabricJSCanvas, useFabricJSEditor } from '../fabric/Canvas';
-import { readExcelMeta } from '../utils/excel';
+import {
+  DataOptions,
+  getHeaderRow,
+  getRowsLimit,
+  readExcelMeta,
+  readGroups,
+  RowMap,
+} from '../utils/excel';
+import { csvDelimiters, csvEncodings, isCsvFile, readCsv } from '../utils/csv';
+import {
+  autoMap,
+  importMappings,
+  MappingProposal,
+  mappingsToCsv,
+  parseMappings,
+} from '../utils/automap';
+import {
+  FieldBinding,
+  findIndex,
+  rebindObjects,
+  SavedBinding,
+  toBinding,
+} from '../utils/binding';
 import { Fieldbox } from '../fabric/editor';
+import { FieldFormat } from '../utils/format';
+import {
+  FormMode,
+  formModes,
+  mapValue,
+  ValueMapping,
+} from '../utils/formvalue';
+import { FieldTemplate } from '../utils/template';
+import {
+  CustomFont,
+  fontExtensions,
+  fontName,
+  loadFontFace,
+} from '../utils/fonts';
+import {
+  BarcodeOptions,
+  barcodeTypes,
+  getBarcodeType,
+  getEcLevel,
+} from '../utils/barcode';
+import { assetExtensions, ImageOptions, readImageAsset } from '../utils/image';
+import { ShapeStyle, ShapeType, shapeTypes } from '../utils/shape';
+import { toPoints } from '../utils/units';
+import { FieldOverflow } from '../utils/overflow';
+import {
+  markupStyles,
+  stripMarkup,
+  VerticalAlign,
+  verticalAligns,
+} from '../utils/richtext';
+import { describeRule, isVisible, VisibilityRule } from '../utils/visibility';
+import { previewObject, previewValue } from '../utils/preview';
+import { PreviewResult, SampleMode } from '../utils/sample';
+import { PdfInsert, TemplateChoice } from '../utils/variants';
+import { FileNaming } from '../utils/filename';
+import BarcodeEditor from './BarcodeEditor';
+import FormatEditor from './FormatEditor';
+import ImageEditor from './ImageEditor';
+import OverflowEditor from './OverflowEditor';
+import VisibilityEditor from './VisibilityEditor';
+import ShapeEditor from './ShapeEditor';
+import RecordNavigator from './RecordNavigator';
+import PreviewGallery from './PreviewGallery';
+import TemplateEditor from './TemplateEditor';
+import ValueMapEditor from './ValueMapEditor';
+import MappingReview from './MappingReview';
+import TemplateSettings from './TemplateSettings';
 
 pdfjs.GlobalWorkerOptions.workerSrc = pdfjsWorker;
 export interface DataHeader {
@@ -29,8 +98,12 @@ export interface DataHeader {
 type Align = 'left' | 'center' | 'right';
 
 export interface CanvasObjects {
-  objects: [Fieldbox | Rect];
-  clientWidth: number;
+  objects: [Fieldbox | Rect | Image | Ellipse | Line];
+  // Older layouts are in pixels of an editor this wide
+  clientWidth?: number;
+  units?: 'pt';
+  // The page is left out of records that fail the rule
+  visibility?: VisibilityRule;
 }
 export interface RenderPdfState {
   pdfFile: string;
@@ -38,13 +111,30 @@ export interface RenderPdfState {
   combinePdf: boolean;
   pageNumber: number;
   canvasData?: Record<number, CanvasObjects>;
-  formData?: Record<string, number>;
+  formData?: Record<string, SavedBinding>;
+  dataOptions?: DataOptions;
+  fonts?: CustomFont[];
+  formMode?: FormMode;
+  variants?: TemplateChoice<Record<number, CanvasObjects>>;
+  inserts?: PdfInsert[];
+  fileNaming?: FileNaming;
   configPath?: string;
 }
+
+type TemplateLayout = Pick<
+  RenderPdfState,
+  'pdfFile' | 'canvasData' | 'formData'
+>;
 interface FieldType {
   type: string;
   name: string;
   index: number;
+  label?: string;
+  format?: FieldFormat;
+  template?: FieldTemplate;
+  values?: ValueMapping[];
+  // Choices of radio groups, dropdowns and option lists
+  options?: string[];
   order: number;
   show: boolean;
 }
@@ -61,11 +151,31 @@ const PdfEditor = () => {
   const [fontFamily, setFontFamily] = useState(
     StandardFonts.Helvetica as string
   );
+  const [fontFile, setFontFile] = useState<string>();
+  const [projectFonts, setProjectFonts] = useState<CustomFont[]>([]);
+  const [systemFonts, setSystemFonts] = useState<CustomFont[]>([]);
   const [fontSize, setFontSize] = useState(16);
   const [fill, setFill] = useState('#000');
   const [showPicker, setShowPicker] = useState(false);
   const [align, setAlign] = useState<Align>('left');
   const [renderType, setRenderType] = useState('text');
+  const [format, setFormat] = useState<FieldFormat>();
+  const [template, setTemplate] = useState<FieldTemplate>();
+  const [barcode, setBarcode] = useState<BarcodeOptions>();
+  const [image, setImage] = useState<ImageOptions>();
+  const [overflow, setOverflow] = useState<FieldOverflow>();
+  const [underline, setUnderline] = useState(false);
+  const [charSpacing, setCharSpacing] = useState(0);
+  const [verticalAlign, setVerticalAlign] = useState<VerticalAlign>('top');
+  const [visibility, setVisibility] = useState<VisibilityRule>();
+  // Live preview shows the values of a record instead of column names
+  const [previewing, setPreviewing] = useState(false);
+  const [records, setRecords] = useState<RowMap[]>([]);
+  const [recordIndex, setRecordIndex] = useState(0);
+  const [showGallery, setShowGallery] = useState(false);
+  const [opacity, setOpacity] = useState(1);
+  const [shapeStyle, setShapeStyle] = useState<ShapeStyle>();
+  const [snapRotation, setSnapRotation] = useState(true);
 
   const [pdfFile, setPdfFile] = useState('');
   const [excelFile, setExcelFile] = useState('');
@@ -75,6 +185,7 @@ const PdfEditor = () => {
   const [openingExcel, setOpeningExcel] = useState(false);
 
   const [pageLoaded, setPageLoaded] = useState(false);
+  const [pageWidth, setPageWidth] = useState<number>();
   const [showCanvas, setShowCanvas] = useState(false);
   const [searchField, setSearchField] = useState('');
 
@@ -83,10 +194,35 @@ const PdfEditor = () => {
 
   const [headers, setHeaders] = useState<DataHeader[]>([]);
   const [combinePdf, setCombinePdf] = useState(true);
+  const [formMode, setFormMode] = useState<FormMode>('flatten');
+  const [templateChoice, setTemplateChoice] = useState<
+    RenderPdfState['variants']
+  >();
+  const [inserts, setInserts] = useState<PdfInsert[]>([]);
+  const [showTemplates, setShowTemplates] = useState(false);
+  // Variant in the editor, -1 for the main template which is kept aside
+  const [activeVariant, setActiveVariant] = useState(-1);
+  const [mainTemplate, setMainTemplate] = useState<TemplateLayout>();
+  const [mappingReview, setMappingReview] = useState<{
+    title: string;
+    proposals: MappingProposal[];
+  }>();
+  const [dataOptions, setDataOptions] = useState<DataOptions>({});
+  const [detected, setDetected] = useState<DataOptions>({});
+  const [sheetNames, setSheetNames] = useState<string[]>([]);
+  const [missingLabels, setMissingLabels] = useState<string[]>([]);
+  const [remap, setRemap] = useState<Record<string, number>>({});
 
   const loadExcelFile = async (fp: string) => {
-    const { firstRow } = await readExcelMeta(fp);
+    const {
+      firstRow,
+      sheetNames: names,
+      encoding,
+      delimiter,
+    } = await readExcelMeta(fp, dataOptions);
     setHeaders(firstRow);
+    setSheetNames(names);
+    setDetected({ encoding, delimiter });
   };
 
   const handleOpenPdf = async () => {
@@ -106,13 +242,19 @@ const PdfEditor = () => {
   const handleOpenExcel = async () => {
     setOpeningExcel(true);
     const filters = [
+      {
+        name: 'Data Files',
+        extensions: ['xlsx', 'xls', 'ods', 'csv', 'tsv', 'txt'],
+      },
       { name: 'Excel Files', extensions: ['xlsx', 'xls', 'ods'] },
+      { name: 'CSV Files', extensions: ['csv', 'tsv', 'txt'] },
     ];
     const path = await ipcRenderer.invoke('open-file', filters, 'path');
     setOpeningExcel(false);
 
     if (path) {
       setExcelFile(path);
+      setDataOptions({});
     }
   };
 
@@ -122,16 +264,29 @@ const PdfEditor = () => {
       canvasData = {
         ...canvasData,
         [pageNumber]: {
+          ...canvasData?.[pageNumber],
           ...editor?.dump(),
-          clientWidth: parentRef.current.clientWidth,
+          units: 'pt',
         },
       };
     }
 
-    const formData = formFields.reduce(
-      (p, c) => ({ ...p, [c.name]: c.index }),
-      {}
-    );
+    // Fields of another template are still loading
+    const formData = formFields.length
+      ? formFields.reduce(
+          (p, c) => ({
+            ...p,
+            [c.name]: {
+              index: c.index,
+              label: c.label,
+              format: c.format,
+              template: c.template,
+              values: c.values,
+            },
+          }),
+          {}
+        )
+      : currentState?.formData;
 
     return {
       pdfFile,
@@ -140,15 +295,115 @@ const PdfEditor = () => {
       combinePdf,
       formData,
       canvasData,
+      dataOptions,
+      fonts: projectFonts,
+      formMode,
+      variants: templateChoice,
+      inserts,
+      // Set in the merge window, the saved one is kept
+      fileNaming: currentState?.fileNaming,
+    };
+  };
+
+  // The state as saved and merged, with the main template on top while a
+  // variant is in the editor
+  const composeState = (view: RenderPdfState): RenderPdfState => {
+    if (activeVariant === -1 || !mainTemplate || !view.variants) {
+      return view;
+    }
+    return {
+      ...view,
+      ...mainTemplate,
+      variants: {
+        ...view.variants,
+        variants: view.variants.variants.map((v, i) =>
+          i === activeVariant
+            ? {
+                ...v,
+                pdfFile: view.pdfFile,
+                canvasData: view.canvasData,
+                formData: view.formData,
+              }
+            : v
+        ),
+      },
     };
   };
 
+  const handleEditTemplate = (target: number) => {
+    const saved = composeState(getCurrentState());
+    const layout = target === -1 ? saved : saved.variants?.variants[target];
+    if (!layout || !layout.pdfFile || target === activeVariant) {
+      return;
+    }
+    setMainTemplate(
+      target === -1
+        ? undefined
+        : {
+            pdfFile: saved.pdfFile,
+            canvasData: saved.canvasData,
+            formData: saved.formData,
+          }
+    );
+    setActiveVariant(target);
+    setFormFields([]);
+    setPdfFile(layout.pdfFile);
+    setPageLoaded(false);
+    setShowCanvas(false);
+    setShowTemplates(false);
+    setCurrentState({
+      ...saved,
+      pdfFile: layout.pdfFile,
+      canvasData: layout.canvasData,
+      formData: layout.formData,
+      pageNumber: 1,
+    });
+  };
+
   const handleMailMerge = async () => {
-    await ipcRenderer.invoke('mail-merge', getCurrentState());
+    await ipcRenderer.invoke('mail-merge', composeState(getCurrentState()));
+  };
+
+  const handleRenderPreview = (
+    count: number,
+    mode: SampleMode
+  ): Promise<PreviewResult | undefined> =>
+    ipcRenderer.invoke(
+      'preview-records',
+      composeState(getCurrentState()),
+      count,
+      mode
+    );
+
+  const handleChangeVisibility = (rule?: VisibilityRule) => {
+    setVisibility(rule);
+    editor?.updateData({ visibility: rule });
+    setCurrentState(getCurrentState());
+  };
+
+  const handleChangePageVisibility = (rule?: VisibilityRule) => {
+    const saved = getCurrentState();
+    const data = saved.canvasData?.[pageNumber];
+    setCurrentState({
+      ...saved,
+      canvasData: {
+        ...saved.canvasData,
+        [pageNumber]: {
+          ...data,
+          objects:
+            data?.objects || (([] as unknown) as CanvasObjects['objects']),
+          visibility: rule,
+        },
+      },
+    });
+  };
+
+  const handleExportForm = async () => {
+    await ipcRenderer.invoke('export-form', getCurrentState());
   };
 
-  const handlePreview = async () => {
-    await ipcRenderer.invoke('preview-pdf', getCurrentState());
+  const handleCheckOverflow = async () => {
+    await ipcRenderer.invoke('check-overflow', composeState(getCurrentState()));
   };
 
   const handleDocumentLoadSuccess = (doc: { numPages: number }) => {
@@ -169,7 +424,9 @@ const PdfEditor = () => {
     setPageNumber(pageNumber - 1);
   };
 
-  const handlePageLoadSuccess = () => {
+  const handlePageLoadSuccess = (page: any) => {
+    // As displayed, so rotated pages are measured on their side
+    setPageWidth(page.getViewport({ scale: 1 }).width);
     setShowCanvas(true);
   };
 
@@ -184,17 +441,64 @@ const PdfEditor = () => {
     };
     const text = e.dataTransfer.getData('Text');
     const index = e.dataTransfer.getData('Index');
+    const zoom = editor?.canvas.getZoom() || 1;
     editor?.addText(text, {
-      left: e.clientX - left,
-      top: e.clientY - top,
-      data: { index },
+      left: (e.clientX - left) / zoom,
+      top: (e.clientY - top) / zoom,
+      data: { index, label: text },
     });
     e.stopPropagation();
     setCurrentState(getCurrentState());
   };
 
   const handleClickAddText = (text: string, index: number) => {
-    editor?.addText(text, { top: 100, left: 100, data: { index } });
+    editor?.addText(text, {
+      top: 100,
+      left: 100,
+      data: { index, label: text },
+    });
+    setCurrentState(getCurrentState());
+  };
+
+  const handleClickAddTable = () => {
+    editor?.addTable();
+    setCurrentState(getCurrentState());
+  };
+
+  const handleClickAddImage = async () => {
+    const filters = [{ name: 'Image Files', extensions: assetExtensions }];
+    const path = await ipcRenderer.invoke('open-file', filters, 'path');
+    if (!path) {
+      return;
+    }
+
+    try {
+      editor?.addImage(await readImageAsset(path));
+      setCurrentState(getCurrentState());
+    } catch (e) {
+      alert(`Can't load image: ${e.message}`);
+    }
+  };
+
+  const handleClickAddShape = (shape: ShapeType) => {
+    editor?.addShape(shape);
+    setCurrentState(getCurrentState());
+  };
+
+  const handleChangeShape = (style: ShapeStyle) => {
+    setShapeStyle(style);
+    editor?.updateObject(style);
+    setCurrentState(getCurrentState());
+  };
+
+  const handleChangeOpacity = (value: number) => {
+    setOpacity(value);
+    editor?.updateObject({ opacity: value });
+    setCurrentState(getCurrentState());
+  };
+
+  const handleClickRotate = () => {
+    editor?.rotateSelected(90);
     setCurrentState(getCurrentState());
   };
 
@@ -211,12 +515,65 @@ const PdfEditor = () => {
     label: value.replace('-', ' '),
     value,
   }));
+  const customFonts = [
+    ...projectFonts,
+    ...systemFonts.filter((f) => !projectFonts.some((p) => p.name === f.name)),
+  ];
+
+  const previewFont = (font: CustomFont) => {
+    loadFontFace(font)
+      .then(() => editor?.refreshFont(font.name))
+      .catch((e) => alert(`Can't load font ${font.name}: ${e.message}`));
+  };
+
+  const handleChangeFont = (name: string) => {
+    const font = customFonts.find((f) => f.name === name);
+    if (font) {
+      previewFont(font);
+    }
+    setFontFamily(name);
+    setFontFile(font?.file);
+  };
+
+  const handleAddFont = async () => {
+    const filters = [{ name: 'Font Files', extensions: fontExtensions }];
+    const file = await ipcRenderer.invoke('open-file', filters, 'path');
+    if (!file) {
+      return;
+    }
+
+    const font = { name: fontName(file), file };
+    const others = projectFonts.filter((f) => f.name !== font.name);
+    setProjectFonts([...others, font]);
+    setCurrentState({ ...getCurrentState(), fonts: [...others, font] });
+    if (selectedObject) {
+      previewFont(font);
+      setFontFamily(font.name);
+      setFontFile(font.file);
+    }
+  };
+
+  const optionLabel = (
+    options: { value: string; label: string }[],
+    value?: string
+  ) => options.find((o) => o.value === value)?.label || value || '';
+
+  const headerRows = Array.from({ length: 20 }, (_v, i) => i + 1);
 
   const fontSizes = [8, 10, 12, 14, 16, 18, 24, 30, 36, 48, 60];
   const renderTypes = [
     { value: 'text', label: 'Text' },
-    { value: 'qrcode', label: 'QR code' },
+    { value: 'template', label: 'Template' },
+    ...barcodeTypes.map(({ value, label }) => ({ value, label })),
+    { value: 'image', label: 'Image' },
   ];
+  const isText = ['text', 'template'].includes(renderType);
+  // Objects that aren't bound to a column
+  const objectLabels: Record<string, string> = {
+    table: 'Table',
+    static: 'Image',
+    shape: optionLabel(shapeTypes, selectedObject?.data?.shape) || 'Shape',
+  };
 
   const handleKeyDown = (key: string) => {
     if (selectedObject) {
@@ -249,39 +606,332 @@ const PdfEditor = () => {
   };
 
   const handleChangeFormField = (e: any, fld: FieldType) => {
+    const index = parseInt(e.target.value, 10);
+    const label = headers.find((h) => h.index === index)?.label;
+    setFormFields(
+      formFields.map((f) => (f.name === fld.name ? { ...f, index, label } : f))
+    );
+  };
+
+  const handleChangeFormFormat = (fld: FieldType, value?: FieldFormat) => {
+    setFormFields(
+      formFields.map((f) => (f.name === fld.name ? { ...f, format: value } : f))
+    );
+  };
+
+  const handleChangeFormTemplate = (fld: FieldType, value?: FieldTemplate) => {
     setFormFields(
       formFields.map((f) =>
-        f.name === fld.name ? { ...f, index: parseInt(e.target.value, 10) } : f
+        f.name === fld.name ? { ...f, template: value } : f
       )
     );
   };
 
+  // Proposals point to a position in the labels, the review works with the
+  // header indexes
+  const reviewMappings = (title: string, proposals: MappingProposal[]) =>
+    setMappingReview({
+      title,
+      proposals: proposals.map((p) => ({
+        ...p,
+        index: p.index === -1 ? -1 : headers[p.index].index,
+      })),
+    });
+
+  const handleAutoMap = () => {
+    reviewMappings(
+      'Auto-map form fields',
+      autoMap(
+        formFields.map((f) => f.name),
+        headers.map((h) => h.label)
+      )
+    );
+  };
+
+  const handleImportMappings = async () => {
+    const filters = [{ name: 'CSV Files', extensions: ['csv', 'tsv', 'txt'] }];
+    const file = await ipcRenderer.invoke('open-file', filters, 'path');
+    if (!file) {
+      return;
+    }
+    try {
+      const rows = parseMappings(readCsv(file).rows);
+      if (!rows.length) {
+        alert('No field mappings found in the file');
+        return;
+      }
+      reviewMappings(
+        'Import field mappings',
+        importMappings(
+          formFields.map((f) => f.name),
+          headers.map((h) => h.label),
+          rows
+        )
+      );
+    } catch (e) {
+      alert(e.message);
+    }
+  };
+
+  const handleExportMappings = async () => {
+    const content = mappingsToCsv(
+      formFields
+        .filter((f) => f.index !== -1)
+        .map((f) => ({
+          field: f.name,
+          label: headers.find((h) => h.index === f.index)?.label || '',
+        }))
+    );
+    await ipcRenderer.invoke('save-file', {
+      defaultPath: 'field-mappings.csv',
+      content,
+      encoding: 'utf8',
+    });
+  };
+
+  const handleApplyMappings = (accepted: MappingProposal[]) => {
+    setFormFields(
+      formFields.map((f) => {
+        const proposal = accepted.find((p) => p.field === f.name);
+        if (!proposal) {
+          return f;
+        }
+        const label = headers.find((h) => h.index === proposal.index)?.label;
+        return { ...f, index: proposal.index, label };
+      })
+    );
+    setMappingReview(undefined);
+  };
+
+  const handleChangeFormValues = (fld: FieldType, values?: ValueMapping[]) => {
+    setFormFields(
+      formFields.map((f) => (f.name === fld.name ? { ...f, values } : f))
+    );
+  };
+
+  const handleChangeTemplate = (value?: FieldTemplate) => {
+    const label = (selectedObject as Fieldbox)?.data?.label;
+    setTemplate(value);
+    // Markup shows as bold, italic and underlined characters on the canvas
+    editor?.updateText({
+      text: value ? stripMarkup(value.text) : label || '',
+      styles: value ? markupStyles(value.text) : {},
+      template: value,
+    });
+    setCurrentState(getCurrentState());
+  };
+
+  const handleChangeRenderType = (value: string) => {
+    const label = (selectedObject as Fieldbox)?.data?.label || '';
+    if (value === 'template' && !template) {
+      handleChangeTemplate({ text: `{${label}}` });
+    } else if (value !== 'template' && renderType === 'template') {
+      // Back to a single column, show its name again
+      setTemplate(undefined);
+      editor?.updateText({ text: label, styles: {}, template: undefined });
+    }
+    if (value !== 'image' && renderType === 'image') {
+      // Only image boxes can be stretched vertically
+      editor?.updateText({ scaleY: 1 });
+    }
+    const barcodeType = getBarcodeType(value);
+    if (barcode?.ecLevel && barcodeType) {
+      // QR codes use letters, PDF417 numbers
+      setBarcode({ ...barcode, ecLevel: getEcLevel(barcodeType, barcode) });
+    }
+    setRenderType(value);
+  };
+
+  const applyBindings = (targets: Record<string, FieldBinding | null>) => {
+    editor?.rebind(targets);
+
+    setFormFields(
+      formFields.map((f) => {
+        if (f.label === undefined || targets[f.label] === undefined) {
+          return f;
+        }
+        return {
+          ...f,
+          ...(targets[f.label] || { index: -1, label: undefined }),
+        };
+      })
+    );
+
+    const canvasData = currentState?.canvasData;
+    if (currentState && canvasData) {
+      setCurrentState({
+        ...currentState,
+        canvasData: Object.keys(canvasData).reduce((p, page) => {
+          const data = canvasData[parseInt(page, 10)];
+          const objects = rebindObjects(data.objects as Fieldbox[], targets);
+          return { ...p, [page]: { ...data, objects } };
+        }, {}),
+      });
+    }
+  };
+
+  const checkBindings = () => {
+    const bindings: FieldBinding[] = formFields.filter((f) => f.label);
+    Object.values(currentState?.canvasData || {}).forEach((data) =>
+      bindings.push(...(data.objects as Fieldbox[]))
+    );
+    bindings.push(...((editor?.dump().objects || []) as Fieldbox[]));
+
+    const labels = headers.map((h) => h.label);
+    const targets: Record<string, FieldBinding> = {};
+    const missing: string[] = [];
+    bindings.forEach((b) => {
+      if (b.label === undefined || b.index === undefined) {
+        return;
+      }
+      const index = findIndex(labels, b);
+      if (index === -1) {
+        if (!missing.includes(b.label)) {
+          missing.push(b.label);
+        }
+      } else if (index !== b.index) {
+        // Column was moved, follow it by name
+        targets[b.label] = { index, label: b.label };
+      }
+    });
+
+    if (Object.keys(targets).length) {
+      applyBindings(targets);
+    }
+    setRemap({});
+    setMissingLabels(missing);
+  };
+
+  const handleRemap = () => {
+    applyBindings(
+      missingLabels.reduce((p, label) => {
+        const index = remap[label] ?? -1;
+        return {
+          ...p,
+          [label]: index === -1 ? null : { index, label: headers[index].label },
+        };
+      }, {})
+    );
+    setMissingLabels([]);
+  };
+
   useEffect(() => {
     editor?.updateText({
       fontFamily,
+      fontFile,
       fontSize,
       fill,
       textAlign: align as string,
       renderType,
+      format,
+      barcode,
+      image,
+      overflow,
+      underline,
+      charSpacing,
+      verticalAlign,
+      lockScalingY: renderType !== 'image',
     });
 
     setCurrentState(getCurrentState());
-  }, [fontFamily, fontSize, fill, align, renderType]);
+  }, [
+    fontFamily,
+    fontFile,
+    fontSize,
+    fill,
+    align,
+    renderType,
+    format,
+    barcode,
+    image,
+    overflow,
+    underline,
+    charSpacing,
+    verticalAlign,
+  ]);
 
   useEffect(() => {
     const text = selectedObject as Fieldbox;
     setFontFamily(text?.fontFamily || 'Helvetica');
+    setFontFile(text?.data?.fontFile);
     setFontSize(text?.fontSize || 16);
     setFill((text?.fill as string) || '#000');
     setAlign((text?.textAlign as Align) || 'left');
-    setRenderType(text?.renderType || 'text');
+    setRenderType(text?.data?.renderType || 'text');
+    setFormat(text?.data?.format);
+    setTemplate(text?.data?.template);
+    setBarcode(text?.data?.barcode);
+    setImage(text?.data?.image);
+    setOverflow(text?.data?.overflow);
+    setUnderline(!!text?.underline);
+    setCharSpacing(text?.charSpacing || 0);
+    setVerticalAlign(text?.data?.verticalAlign || 'top');
+    setVisibility(selectedObject?.data?.visibility);
+    setOpacity(selectedObject?.opacity ?? 1);
+    setShapeStyle({
+      fill: selectedObject?.fill as string,
+      stroke: selectedObject?.stroke,
+      strokeWidth: selectedObject?.strokeWidth,
+    });
   }, [selectedObject]);
 
+  useEffect(() => {
+    editor?.setSnapAngle(snapRotation ? 90 : 0);
+  }, [editor, snapRotation]);
+
   useEffect(() => {
     if (excelFile) {
       loadExcelFile(excelFile).catch((e) => alert(e.message));
     }
-  }, [excelFile]);
+  }, [excelFile, dataOptions]);
+
+  useEffect(() => {
+    if (!previewing || !excelFile) {
+      setRecords([]);
+      return;
+    }
+    // Same records as the merge, grouped records show their first row
+    const loadRecords = async () => {
+      const merged: RenderPdfState = await ipcRenderer.invoke(
+        'merge-settings',
+        { pdfFile: mainTemplate?.pdfFile || pdfFile, dataOptions }
+      );
+      const { groups } = readGroups(
+        excelFile,
+        getRowsLimit(),
+        merged.dataOptions
+      );
+      setRecords(groups.map((g) => g[0]));
+      setRecordIndex((n) => Math.min(n, Math.max(0, groups.length - 1)));
+    };
+    loadRecords().catch((e) => {
+      alert(e.message);
+      setPreviewing(false);
+    });
+  }, [previewing, excelFile, dataOptions, pdfFile, mainTemplate]);
+
+  const previewRow = previewing ? records[recordIndex] : undefined;
+  const labels = headers.map((h) => h.label);
+  let pageHidden = false;
+  try {
+    pageHidden =
+      !!previewRow &&
+      !isVisible(
+        previewRow,
+        labels,
+        currentState?.canvasData?.[pageNumber]?.visibility
+      );
+  } catch (e) {
+    // Rules on missing columns are reported when merging
+  }
+
+  useEffect(() => {
+    const names = headers.map((h) => h.label);
+    // Edits restore the layout, so the record is shown again after each one
+    editor?.setPreview(
+      previewRow && ((o) => previewObject(o.data, previewRow, names))
+    );
+  }, [editor, previewRow, headers, currentState]);
 
   useEffect(() => {
     if (currentState) {
@@ -295,10 +945,15 @@ const PdfEditor = () => {
 
       if (!excelFile) {
         setExcelFile(currentState.excelFile);
+        setDataOptions(currentState.dataOptions || {});
       }
 
       setCombinePdf(currentState.combinePdf);
-      ipcRenderer.invoke('save-config', getCurrentState());
+      setFormMode(currentState.formMode || 'flatten');
+      setTemplateChoice(currentState.variants);
+      setInserts(currentState.inserts || []);
+      setProjectFonts(currentState.fonts || []);
+      ipcRenderer.invoke('save-config', composeState(getCurrentState()));
     }
   }, [currentState]);
 
@@ -309,7 +964,17 @@ const PdfEditor = () => {
       currentState.canvasData &&
       currentState.canvasData[pageNumber]
     ) {
-      editor.load(currentState.canvasData[pageNumber]);
+      // Layouts saved in pixels are migrated to points on the way in
+      const data = pageWidth
+        ? toPoints(currentState.canvasData[pageNumber], pageWidth)
+        : currentState.canvasData[pageNumber];
+      editor.load(data);
+      data.objects.forEach((o) => {
+        const fld = o as Fieldbox;
+        if (fld.fontFile && fld.fontFamily) {
+          previewFont({ name: fld.fontFamily, file: fld.fontFile });
+        }
+      });
     }
   }, [editor]);
 
@@ -320,13 +985,22 @@ const PdfEditor = () => {
         .then((fields: FieldType[]) =>
           setFormFields(
             fields.map((f, idx) => {
-              let index = -1;
-              if (currentState && currentState.formData) {
-                index = currentState.formData[f.name];
-              }
+              const {
+                index,
+                label,
+                format: fmt,
+                template: tpl,
+                values,
+              } = toBinding(
+                currentState?.formData && currentState.formData[f.name]
+              );
               return {
                 ...f,
                 index,
+                label,
+                format: fmt,
+                template: tpl,
+                values,
                 order: idx + 1,
                 show: true,
               };
@@ -335,7 +1009,7 @@ const PdfEditor = () => {
         )
         .catch((e) => alert(e.message));
     }
-  }, [pdfFile]);
+  }, [pdfFile, activeVariant]);
 
   useEffect(() => {
     if (state) {
@@ -343,6 +1017,12 @@ const PdfEditor = () => {
     }
   }, [state]);
 
+  useEffect(() => {
+    if (headers.length) {
+      checkBindings();
+    }
+  }, [headers, formFields.length]);
+
   useEffect(() => {
     if (searchField.trim()) {
       setFormFields(
@@ -362,6 +1042,14 @@ const PdfEditor = () => {
     });
   }, []);
 
+  useEffect(() => {
+    ipcRenderer
+      .invoke('list-fonts')
+      .then(setSystemFonts)
+      // Project fonts still work without the system ones
+      .catch(() => setSystemFonts([]));
+  }, []);
+
   return (
     <div className="flex flex-1">
       <section className="flex flex-col flex-shrink-0 p-4 space-y-4 bg-gray-200 w-60">
@@ -376,6 +1064,143 @@ const PdfEditor = () => {
           </button>
         </span>
 
+        {excelFile ? (
+          <section className="flex flex-col space-y-2 text-xs">
+            {sheetNames.length > 1 ? (
+              <label
+                htmlFor="sheetName"
+                className="flex items-center justify-between"
+              >
+                <span>Sheet:</span>
+                <select
+                  id="sheetName"
+                  className="w-32"
+                  value={dataOptions.sheetName || sheetNames[0]}
+                  onChange={(e) =>
+                    setDataOptions({
+                      ...dataOptions,
+                      sheetName: e.target.value,
+                    })
+                  }
+                >
+                  {sheetNames.map((name) => (
+                    <option value={name} key={name}>
+                      {name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ) : null}
+            <label
+              htmlFor="headerRow"
+              className="flex items-center justify-between"
+            >
+              <span>Header row:</span>
+              <select
+                id="headerRow"
+                className="w-32"
+                value={getHeaderRow(dataOptions)}
+                onChange={(e) =>
+                  setDataOptions({
+                    ...dataOptions,
+                    headerRow: parseInt(e.target.value, 10),
+                  })
+                }
+              >
+                <option value={0}>No header</option>
+                {headerRows.map((r) => (
+                  <option value={r} key={r}>
+                    Row {r}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label
+              htmlFor="groupBy"
+              className="flex items-center justify-between"
+              title="One document per value, rows of a group fill the table region"
+            >
+              <span>Group by:</span>
+              <select
+                id="groupBy"
+                className="w-32"
+                value={dataOptions.groupBy?.index ?? -1}
+                onChange={(e) => {
+                  const index = parseInt(e.target.value, 10);
+                  const header = headers.find((h) => h.index === index);
+                  setDataOptions({
+                    ...dataOptions,
+                    groupBy: header && { index, label: header.label },
+                  });
+                }}
+              >
+                {[{ index: -1, label: 'No grouping' }, ...headers].map((h) => (
+                  <option value={h.index} key={h.index}>
+                    {h.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </section>
+        ) : null}
+
+        {excelFile && isCsvFile(excelFile) ? (
+          <section className="flex flex-col space-y-2 text-xs">
+            <label
+              htmlFor="delimiter"
+              className="flex items-center justify-between"
+            >
+              <span>Delimiter:</span>
+              <select
+                id="delimiter"
+                className="w-32"
+                value={dataOptions.delimiter || ''}
+                onChange={(e) =>
+                  setDataOptions({
+                    ...dataOptions,
+                    delimiter: e.target.value || undefined,
+                  })
+                }
+              >
+                <option value="">
+                  Auto ({optionLabel(csvDelimiters, detected.delimiter)})
+                </option>
+                {csvDelimiters.map(({ value, label }) => (
+                  <option value={value} key={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label
+              htmlFor="encoding"
+              className="flex items-center justify-between"
+            >
+              <span>Encoding:</span>
+              <select
+                id="encoding"
+                className="w-32"
+                value={dataOptions.encoding || ''}
+                onChange={(e) =>
+                  setDataOptions({
+                    ...dataOptions,
+                    encoding: e.target.value || undefined,
+                  })
+                }
+              >
+                <option value="">
+                  Auto ({optionLabel(csvEncodings, detected.encoding)})
+                </option>
+                {csvEncodings.map(({ value, label }) => (
+                  <option value={value} key={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </section>
+        ) : null}
+
         {excelFile ? (
           <ul className="flex flex-col items-center justify-start space-y-2">
             {headers.map(({ index, label }) => (
@@ -412,6 +1237,15 @@ const PdfEditor = () => {
             >
               Choose PDF...
             </button>
+            <button
+              type="button"
+              className="btn"
+              onClick={() => setShowTemplates(true)}
+              disabled={!pdfFile || !excelFile}
+              title="Pick the template by a column and add static PDFs"
+            >
+              Templates...
+            </button>
 
             {formFields.length ? (
               <section className="flex items-center justify-center space-x-2 text-xs">
@@ -443,11 +1277,29 @@ const PdfEditor = () => {
             <button
               type="button"
               className="btn"
-              onClick={handlePreview}
+              onClick={() => setShowGallery(true)}
               disabled={!pdfFile || !excelFile}
             >
               Preview
             </button>
+            <button
+              type="button"
+              className="btn"
+              onClick={handleCheckOverflow}
+              disabled={!pdfFile || !excelFile}
+              title="List the values that are too long for their field"
+            >
+              Check overflow
+            </button>
+            <button
+              type="button"
+              className="btn"
+              onClick={handleExportForm}
+              disabled={!pdfFile || !excelFile}
+              title="Save a copy of the template with the canvas fields as form fields"
+            >
+              Fillable PDF...
+            </button>
             <button
               type="button"
               className="btn"
@@ -466,30 +1318,120 @@ const PdfEditor = () => {
                 selectedObject && !formLayout ? '' : 'opacity-50 cursor-default'
               }`}
             >
-              <select
-                className="w-24"
-                onChange={(e) => setRenderType(e.target.value)}
-                value={renderType}
-                disabled={!selectedObject}
-              >
-                {renderTypes.map((r) => (
-                  <option value={r.value} key={r.value}>
-                    {r.label}
-                  </option>
-                ))}
-              </select>
+              {objectLabels[renderType] ? (
+                <span className="w-24 leading-7">
+                  {objectLabels[renderType]}
+                </span>
+              ) : (
+                <select
+                  className="w-24"
+                  onChange={(e) => handleChangeRenderType(e.target.value)}
+                  value={renderType}
+                  disabled={!selectedObject}
+                >
+                  {renderTypes.map((r) => (
+                    <option value={r.value} key={r.value}>
+                      {r.label}
+                    </option>
+                  ))}
+                </select>
+              )}
+
+              {getBarcodeType(renderType) ? (
+                <BarcodeEditor
+                  type={selectedObject && getBarcodeType(renderType)}
+                  options={barcode}
+                  onChange={setBarcode}
+                />
+              ) : null}
+              {renderType === 'image' ? (
+                <ImageEditor
+                  options={image}
+                  onChange={setImage}
+                  disabled={!selectedObject}
+                />
+              ) : null}
+              {renderType === 'shape' ? (
+                <ShapeEditor
+                  style={shapeStyle}
+                  line={selectedObject?.type === 'line'}
+                  onChange={handleChangeShape}
+                  disabled={!selectedObject}
+                />
+              ) : null}
+              {['static', 'shape'].includes(renderType) ? (
+                <label
+                  htmlFor="opacity"
+                  className="flex items-center space-x-2 text-xs"
+                >
+                  <span>Opacity</span>
+                  <input
+                    id="opacity"
+                    type="range"
+                    min={0.1}
+                    max={1}
+                    step={0.05}
+                    value={opacity}
+                    onChange={(e) =>
+                      handleChangeOpacity(parseFloat(e.target.value))
+                    }
+                    disabled={!selectedObject}
+                  />
+                </label>
+              ) : null}
+              {!getBarcodeType(renderType) &&
+              !['image', 'static', 'shape'].includes(renderType) ? (
+                <TemplateEditor
+                  template={template}
+                  headers={headers}
+                  onChange={handleChangeTemplate}
+                  disabled={!selectedObject || renderType !== 'template'}
+                />
+              ) : null}
 
               <select
-                onChange={(e) => setFontFamily(e.target.value)}
+                className="w-40"
+                onChange={(e) => handleChangeFont(e.target.value)}
                 value={fontFamily}
-                disabled={!selectedObject || renderType !== 'text'}
+                disabled={!selectedObject || !isText}
               >
-                {fonts.map(({ label, value }) => (
-                  <option value={value} key={value}>
-                    {label}
-                  </option>
-                ))}
+                <optgroup label="Standard">
+                  {fonts.map(({ label, value }) => (
+                    <option value={value} key={value}>
+                      {label}
+                    </option>
+                  ))}
+                </optgroup>
+                {fontFile && !customFonts.some((f) => f.name === fontFamily) ? (
+                  <option value={fontFamily}>{fontFamily}</option>
+                ) : null}
+                {projectFonts.length ? (
+                  <optgroup label="Project">
+                    {projectFonts.map(({ name }) => (
+                      <option value={name} key={name}>
+                        {name}
+                      </option>
+                    ))}
+                  </optgroup>
+                ) : null}
+                {systemFonts.length ? (
+                  <optgroup label="System">
+                    {customFonts.slice(projectFonts.length).map(({ name }) => (
+                      <option value={name} key={name}>
+                        {name}
+                      </option>
+                    ))}
+                  </optgroup>
+                ) : null}
               </select>
+              <button
+                type="button"
+                className="btn-link"
+                onClick={handleAddFont}
+                title="Add a TTF/OTF font to this project"
+              >
+                <FontAwesomeIcon icon="plus" />
+              </button>
 
               <select
                 className="w-14"
@@ -497,7 +1439,7 @@ const PdfEditor = () => {
                   setFontSize(parseInt(e.target.value, 10) || 16)
                 }
                 value={fontSize}
-                disabled={!selectedObject || renderType !== 'text'}
+                disabled={!selectedObject || !isText}
               >
                 {fontSizes.map((v) => (
                   <option value={v} key={v}>
@@ -506,9 +1448,28 @@ const PdfEditor = () => {
                 ))}
               </select>
 
+              <FormatEditor
+                format={format}
+                onChange={setFormat}
+                disabled={
+                  !selectedObject || ['template', 'image'].includes(renderType)
+                }
+              />
+              <OverflowEditor
+                overflow={overflow}
+                onChange={setOverflow}
+                disabled={!selectedObject || !isText}
+              />
+              <VisibilityEditor
+                rule={visibility}
+                headers={headers}
+                onChange={handleChangeVisibility}
+                disabled={!selectedObject}
+              />
+
               <section
                 className={`flex items-center justify-center border-t border-b rounded-sm ${
-                  renderType !== 'text' ? 'opacity-50' : ''
+                  !isText ? 'opacity-50' : ''
                 }`}
               >
                 {['left', 'center', 'right'].map((al) => (
@@ -525,20 +1486,55 @@ const PdfEditor = () => {
                     />
                   </button>
                 ))}
+                <button
+                  type="button"
+                  className={`outline-none focus:outline-none w-10 h-7 ${
+                    underline ? 'bg-gray-300' : ''
+                  }`}
+                  onClick={() => setUnderline(!underline)}
+                  title="Underline"
+                >
+                  <FontAwesomeIcon icon="underline" />
+                </button>
               </section>
 
+              <select
+                className="w-20"
+                onChange={(e) =>
+                  setVerticalAlign(e.target.value as VerticalAlign)
+                }
+                value={verticalAlign}
+                disabled={!selectedObject || !isText}
+                title="Vertical alignment in the box"
+              >
+                {verticalAligns.map(({ value, label }) => (
+                  <option value={value} key={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="number"
+                className="w-14"
+                step={10}
+                value={charSpacing}
+                onChange={(e) =>
+                  setCharSpacing(parseInt(e.target.value, 10) || 0)
+                }
+                disabled={!selectedObject || !isText}
+                title="Letter spacing, in thousandths of an em"
+              />
+
               <div
                 className={`p-2 border-2 border-white rounded shadow outline-none w-7 h-7 focus:outline-none focus:ring-2 focus:ring-blue-500 ${
-                  renderType !== 'text' ? 'opacity-50 cursor-default' : ''
+                  !isText ? 'opacity-50 cursor-default' : ''
                 }`}
                 style={{ backgroundColor: fill }}
-                onClick={() =>
-                  selectedObject && renderType === 'text' && setShowPicker(true)
-                }
+                onClick={() => selectedObject && isText && setShowPicker(true)}
                 role="button"
                 aria-labelledby="pick"
                 onKeyPress={() =>
-                  selectedObject && renderType === 'text' && setShowPicker(true)
+                  selectedObject && isText && setShowPicker(true)
                 }
                 tabIndex={0}
               />
@@ -561,6 +1557,28 @@ const PdfEditor = () => {
                   </div>
                 </div>
               ) : null}
+              <button
+                type="button"
+                className="btn-link"
+                onClick={handleClickRotate}
+                disabled={!selectedObject || renderType === 'table'}
+                title="Rotate 90° clockwise"
+              >
+                <FontAwesomeIcon icon="redo" />
+              </button>
+              <label
+                htmlFor="snapRotation"
+                className="flex items-center space-x-1 text-xs"
+                title="Snap rotation to 90°, untick to rotate freely with the handle"
+              >
+                <input
+                  id="snapRotation"
+                  type="checkbox"
+                  checked={snapRotation}
+                  onChange={(e) => setSnapRotation(e.target.checked)}
+                />
+                <span>Snap 90°</span>
+              </label>
               <button
                 type="button"
                 className="btn-link"
@@ -573,11 +1591,127 @@ const PdfEditor = () => {
                 />
               </button>
             </section>
+            {!formLayout ? (
+              <span className="flex space-x-2">
+                <select
+                  className="w-28"
+                  value=""
+                  onChange={(e) =>
+                    handleClickAddShape(e.target.value as ShapeType)
+                  }
+                  disabled={!showCanvas}
+                  title="Add a shape, white-out boxes hide the template text under a field"
+                >
+                  <option value="" disabled>
+                    Add shape
+                  </option>
+                  {shapeTypes.map(({ value, label }) => (
+                    <option value={value} key={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  className="btn-link"
+                  onClick={handleClickAddImage}
+                  disabled={!showCanvas}
+                  title="Add a logo, signature or stamp (PNG, JPG or SVG)"
+                >
+                  <FontAwesomeIcon icon="image" />
+                </button>
+                <button
+                  type="button"
+                  className="btn-link"
+                  onClick={handleClickAddTable}
+                  disabled={!showCanvas}
+                  title="Add a table region, fields placed in its first line repeat for every row of a group"
+                >
+                  <FontAwesomeIcon icon="table" />
+                </button>
+              </span>
+            ) : null}
+          </section>
+        ) : null}
+
+        {activeVariant !== -1 ? (
+          <section className="flex items-center justify-between px-2 text-sm bg-yellow-100 rounded">
+            <p>
+              Layout for {templateChoice?.label} ={' '}
+              {templateChoice?.variants[activeVariant]?.value}
+            </p>
+            <button
+              type="button"
+              className="btn-link"
+              onClick={() => handleEditTemplate(-1)}
+            >
+              Back to the main template
+            </button>
+          </section>
+        ) : null}
+
+        {pdfFile && excelFile ? (
+          <section className="flex items-center justify-end space-x-2">
+            {pageHidden && !formLayout ? (
+              <p className="text-xs text-red-500">
+                This page is left out of this record
+              </p>
+            ) : null}
+            <RecordNavigator
+              enabled={previewing}
+              record={recordIndex}
+              count={records.length}
+              onToggle={setPreviewing}
+              onChange={setRecordIndex}
+            />
           </section>
         ) : null}
 
         {formLayout ? (
           <section className="flex flex-col items-stretch justify-start flex-1 space-y-4">
+            <div className="flex items-center justify-between space-x-2 text-sm">
+              <span className="flex items-center space-x-2">
+                <button
+                  type="button"
+                  className="btn"
+                  onClick={handleAutoMap}
+                  disabled={!headers.length || !formFields.length}
+                  title="Match form fields to columns with similar names"
+                >
+                  Auto-map
+                </button>
+                <button
+                  type="button"
+                  className="btn-link"
+                  onClick={handleImportMappings}
+                  disabled={!headers.length || !formFields.length}
+                >
+                  Import...
+                </button>
+                <button
+                  type="button"
+                  className="btn-link"
+                  onClick={handleExportMappings}
+                  disabled={!formFields.some((f) => f.index !== -1)}
+                >
+                  Export...
+                </button>
+              </span>
+              <label htmlFor="formMode" className="flex items-center space-x-2">
+                <span>Form fields in the output:</span>
+                <select
+                  id="formMode"
+                  value={formMode}
+                  onChange={(e) => setFormMode(e.target.value as FormMode)}
+                >
+                  {formModes.map(({ value, label }) => (
+                    <option value={value} key={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
             <div className="flex items-center px-2 space-x-1 text-gray-400 bg-gray-200 rounded-md focus-within:text-gray-600 focus-within:ring-1 focus-within:ring-blue-500">
               <FontAwesomeIcon icon="search" />
               <input
@@ -607,11 +1741,20 @@ const PdfEditor = () => {
                       <span className="opacity-70">{fld.order}.</span>
                       <span className="font-medium">{fld.name}</span>
                       <span className="text-xs opacity-70">({fld.type})</span>:
+                      {previewRow ? (
+                        <span className="text-blue-600 truncate">
+                          {mapValue(
+                            previewValue(fld, previewRow, labels),
+                            fld.values
+                          )}
+                        </span>
+                      ) : null}
                     </p>
                     <select
                       className="flex-shrink-0 rounded-sm outline-none bg-gray-50 active:outline-none focus:ring-2 focus:outline-none focus:ring-blue-500 h-7"
                       onChange={(e) => handleChangeFormField(e, fld)}
                       value={fld.index}
+                      disabled={!!fld.template}
                     >
                       {[{ index: -1, label: '---' }, ...headers].map((h) => (
                         <option value={h.index} key={h.index}>
@@ -619,12 +1762,29 @@ const PdfEditor = () => {
                         </option>
                       ))}
                     </select>
+                    <FormatEditor
+                      format={fld.format}
+                      onChange={(f) => handleChangeFormFormat(fld, f)}
+                      disabled={fld.index === -1 || !!fld.template}
+                    />
+                    <TemplateEditor
+                      template={fld.template}
+                      headers={headers}
+                      onChange={(t) => handleChangeFormTemplate(fld, t)}
+                    />
+                    <ValueMapEditor
+                      values={fld.values}
+                      type={fld.type}
+                      options={fld.options}
+                      onChange={(v) => handleChangeFormValues(fld, v)}
+                    />
                   </li>
                 ))}
             </ol>
           </section>
         ) : (
           <Document
+            key={activeVariant}
             file={pdfFile}
             onLoadSuccess={handleDocumentLoadSuccess}
             className="relative flex items-start justify-center flex-1"
@@ -652,6 +1812,7 @@ const PdfEditor = () => {
                       onDrop={handleDrop}
                       canvasRef={canvasRef}
                       parentRef={parentRef}
+                      pageWidth={pageWidth}
                       style={{
                         width: size.width || 500,
                         height: size.height || 500,
@@ -678,9 +1839,21 @@ const PdfEditor = () => {
             ) : (
               <p />
             )}
-            <p>
-              Page {pageNumber} of {numPages}
-            </p>
+            <div className="flex items-center space-x-2">
+              <p
+                title={describeRule(
+                  currentState?.canvasData?.[pageNumber]?.visibility
+                )}
+              >
+                Page {pageNumber} of {numPages}
+              </p>
+              <VisibilityEditor
+                rule={currentState?.canvasData?.[pageNumber]?.visibility}
+                headers={headers}
+                subject="page"
+                onChange={handleChangePageVisibility}
+              />
+            </div>
             {pageNumber < numPages ? (
               <button
                 type="button"
@@ -695,6 +1868,87 @@ const PdfEditor = () => {
           </div>
         )}
       </section>
+
+      {missingLabels.length ? (
+        <div className="fixed inset-0 z-20 flex items-center justify-center bg-black bg-opacity-30">
+          <section className="flex flex-col p-6 space-y-4 bg-white rounded shadow-lg w-96">
+            <h2 className="text-lg font-bold">Missing columns</h2>
+            <p className="text-sm">
+              These columns are used in the layout but no longer exist in the
+              Excel file. Choose a replacement, or leave it empty to remove the
+              fields bound to it.
+            </p>
+            <ul className="flex flex-col space-y-2">
+              {missingLabels.map((label) => (
+                <li
+                  key={label}
+                  className="flex items-center justify-between space-x-2"
+                >
+                  <span className="font-medium truncate">{label}</span>
+                  <select
+                    className="w-40"
+                    value={remap[label] ?? -1}
+                    onChange={(e) =>
+                      setRemap({
+                        ...remap,
+                        [label]: parseInt(e.target.value, 10),
+                      })
+                    }
+                  >
+                    {[{ index: -1, label: '---' }, ...headers].map((h) => (
+                      <option value={h.index} key={h.index}>
+                        {h.label}
+                      </option>
+                    ))}
+                  </select>
+                </li>
+              ))}
+            </ul>
+            <button
+              type="button"
+              className="self-end btn"
+              onClick={handleRemap}
+            >
+              Apply
+            </button>
+          </section>
+        </div>
+      ) : null}
+
+      {showGallery ? (
+        <PreviewGallery
+          onRender={handleRenderPreview}
+          onClose={() => setShowGallery(false)}
+        />
+      ) : null}
+
+      {showTemplates && pdfFile ? (
+        <TemplateSettings
+          choice={templateChoice}
+          inserts={inserts}
+          headers={headers}
+          mainFile={mainTemplate?.pdfFile || pdfFile}
+          editing={activeVariant}
+          onChange={(choice) =>
+            setCurrentState({ ...getCurrentState(), variants: choice })
+          }
+          onChangeInserts={(list) =>
+            setCurrentState({ ...getCurrentState(), inserts: list })
+          }
+          onEdit={handleEditTemplate}
+          onClose={() => setShowTemplates(false)}
+        />
+      ) : null}
+
+      {mappingReview ? (
+        <MappingReview
+          title={mappingReview.title}
+          proposals={mappingReview.proposals}
+          headers={headers}
+          onApply={handleApplyMappings}
+          onClose={() => setMappingReview(undefined)}
+        />
+      ) : null}
     </div>
   );
 };
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { Document, Page } from 'react-pdf/dist/esm/entry.webpack';
+import { ipcRenderer } from 'electron';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { PreviewResult, SampleMode, sampleModes } from '../utils/sample';
+
+type PreviewGalleryProps = {
+  onRender: (
+    count: number,
+    mode: SampleMode
+  ) => Promise<PreviewResult | undefined>;
+  onClose: () => void;
+};
+
+const PreviewGallery = ({ onRender, onClose }: PreviewGalleryProps) => {
+  const [mode, setMode] = useState<SampleMode>('first');
+  const [count, setCount] = useState(6);
+  const [rendering, setRendering] = useState(false);
+  const [result, setResult] = useState<PreviewResult>();
+
+  const handleRender = async () => {
+    setRendering(true);
+    try {
+      setResult((await onRender(count, mode)) || result);
+    } finally {
+      setRendering(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-20 flex items-center justify-center bg-black bg-opacity-30">
+      <section className="flex flex-col w-11/12 p-6 space-y-4 bg-white rounded shadow-lg h-5/6">
+        <div className="flex items-center justify-between space-x-2">
+          <h2 className="text-lg font-bold">Preview</h2>
+          <span className="flex items-center space-x-2 text-sm">
+            <select
+              value={mode}
+              onChange={(e) => setMode(e.target.value as SampleMode)}
+            >
+              {sampleModes.map(({ value, label }) => (
+                <option value={value} key={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <input
+              type="number"
+              className="w-16"
+              min={1}
+              max={50}
+              value={count}
+              onChange={(e) =>
+                setCount(
+                  Math.min(50, Math.max(1, parseInt(e.target.value, 10) || 1))
+                )
+              }
+              title="Number of records"
+            />
+            <button
+              type="button"
+              className="btn"
+              onClick={handleRender}
+              disabled={rendering}
+            >
+              {rendering ? 'Rendering...' : 'Render'}
+            </button>
+            <button type="button" className="btn-link" onClick={onClose}>
+              <FontAwesomeIcon icon="times-circle" />
+            </button>
+          </span>
+        </div>
+
+        <ul className="flex flex-wrap flex-1 overflow-y-auto">
+          {result?.pages.map(({ record, file }) => (
+            <li key={file} className="m-2">
+              <button
+                type="button"
+                className="flex flex-col items-center space-y-1 text-xs"
+                onClick={() => ipcRenderer.invoke('open-preview', file)}
+                title="Open the full-size page"
+              >
+                <Document file={file} className="border shadow">
+                  <Page
+                    pageNumber={1}
+                    width={180}
+                    renderAnnotationLayer={false}
+                    renderTextLayer={false}
+                  />
+                </Document>
+                <span>Record {record}</span>
+              </button>
+            </li>
+          ))}
+          {!result ? (
+            <li className="m-2 text-sm opacity-70">
+              Choose the records to check and click Render
+            </li>
+          ) : null}
+          {result && !result.pages.length ? (
+            <li className="m-2 text-sm">No records to preview</li>
+          ) : null}
+        </ul>
+
+        {result?.issues.length ? (
+          <ul className="overflow-y-auto text-xs text-red-500 max-h-24">
+            {result.issues.map((issue) => (
+              <li key={issue}>{issue}</li>
+            ))}
+          </ul>
+        ) : null}
+      </section>
+    </div>
+  );
+};
+
+export default PreviewGallery;
@@ -0,0 +1,99 @@
+import React from 'react';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+
+type RecordNavigatorProps = {
+  enabled: boolean;
+  // 0-based index of the record shown
+  record: number;
+  count: number;
+  disabled?: boolean;
+  onToggle: (enabled: boolean) => void;
+  onChange: (record: number) => void;
+};
+
+const RecordNavigator = ({
+  enabled,
+  record,
+  count,
+  disabled,
+  onToggle,
+  onChange,
+}: RecordNavigatorProps) => {
+  const last = Math.max(0, count - 1);
+  const go = (n: number) => onChange(Math.min(last, Math.max(0, n)));
+
+  return (
+    <section className="flex items-center space-x-2 text-xs">
+      <button
+        type="button"
+        className={`px-2 border rounded-sm h-7 whitespace-nowrap ${
+          enabled ? 'bg-gray-300' : ''
+        }`}
+        onClick={() => onToggle(!enabled)}
+        disabled={disabled}
+        title="Show the values of a record on the page"
+      >
+        <FontAwesomeIcon icon="eye" className="mr-1" />
+        Live preview
+      </button>
+      {enabled && !disabled ? (
+        <>
+          <button
+            type="button"
+            className="btn-link"
+            onClick={() => go(0)}
+            disabled={record === 0}
+            title="First record"
+          >
+            <FontAwesomeIcon icon="angle-double-left" />
+          </button>
+          <button
+            type="button"
+            className="btn-link"
+            onClick={() => go(record - 1)}
+            disabled={record === 0}
+            title="Previous record"
+          >
+            <FontAwesomeIcon icon="angle-left" />
+          </button>
+          <label htmlFor="previewRecord" className="whitespace-nowrap">
+            <input
+              id="previewRecord"
+              type="number"
+              className="w-16 mr-1"
+              min={1}
+              max={count}
+              value={count ? record + 1 : 0}
+              onChange={(e) => go((parseInt(e.target.value, 10) || 1) - 1)}
+            />
+            of {count}
+          </label>
+          <button
+            type="button"
+            className="btn-link"
+            onClick={() => go(record + 1)}
+            disabled={record >= last}
+            title="Next record"
+          >
+            <FontAwesomeIcon icon="angle-right" />
+          </button>
+          <button
+            type="button"
+            className="btn-link"
+            onClick={() => go(last)}
+            disabled={record >= last}
+            title="Last record"
+          >
+            <FontAwesomeIcon icon="angle-double-right" />
+          </button>
+        </>
+      ) : null}
+    </section>
+  );
+};
+
+RecordNavigator.defaultProps = {
+  disabled: false,
+};
+
+export default RecordNavigator;
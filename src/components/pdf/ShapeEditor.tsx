@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { ShapeStyle } from '../utils/shape';
+
+type ShapeEditorProps = {
+  style?: ShapeStyle;
+  line?: boolean;
+  disabled?: boolean;
+  onChange: (style: ShapeStyle) => void;
+};
+
+const ShapeEditor = ({ style, line, disabled, onChange }: ShapeEditorProps) => {
+  const [open, setOpen] = useState(false);
+  const current = style || {};
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        className="px-2 text-xs border rounded-sm h-7 whitespace-nowrap"
+        onClick={() => setOpen(true)}
+        disabled={disabled}
+        title="Fill and outline"
+      >
+        Style
+      </button>
+      {open && !disabled ? (
+        <div className="absolute right-0 z-10">
+          <div
+            role="button"
+            aria-labelledby="cover"
+            className="fixed inset-0"
+            onClick={() => setOpen(false)}
+            onKeyPress={() => setOpen(false)}
+            tabIndex={0}
+          />
+          <section className="relative flex flex-col p-3 space-y-2 text-xs bg-white rounded shadow w-60">
+            {!line ? (
+              <label
+                htmlFor="shapeFill"
+                className="flex items-center space-x-2"
+              >
+                <input
+                  type="checkbox"
+                  checked={!!current.fill}
+                  onChange={(e) =>
+                    onChange({
+                      ...current,
+                      fill: e.target.checked ? '#ffffff' : '',
+                    })
+                  }
+                />
+                <span className="flex-1">Fill</span>
+                <input
+                  id="shapeFill"
+                  type="color"
+                  value={current.fill || '#ffffff'}
+                  disabled={!current.fill}
+                  onChange={(e) =>
+                    onChange({ ...current, fill: e.target.value })
+                  }
+                />
+              </label>
+            ) : null}
+
+            <label
+              htmlFor="shapeStroke"
+              className="flex items-center space-x-2"
+            >
+              <span className="flex-1">Outline</span>
+              <input
+                id="shapeStroke"
+                type="color"
+                value={current.stroke || '#000000'}
+                onChange={(e) =>
+                  onChange({ ...current, stroke: e.target.value })
+                }
+              />
+            </label>
+
+            <label htmlFor="shapeWidth" className="flex flex-col space-y-1">
+              <span>Outline width (0 for none):</span>
+              <input
+                id="shapeWidth"
+                type="number"
+                min={0}
+                step={0.5}
+                value={current.strokeWidth ?? 0}
+                onChange={(e) => {
+                  const n = parseFloat(e.target.value);
+                  onChange({
+                    ...current,
+                    stroke: current.stroke || '#000000',
+                    strokeWidth: Number.isNaN(n) ? 0 : n,
+                  });
+                }}
+              />
+            </label>
+          </section>
+        </div>
+      ) : null}
+    </div>
+  );
+};
+
+ShapeEditor.defaultProps = {
+  style: undefined,
+  line: false,
+  disabled: false,
+};
+
+export default ShapeEditor;
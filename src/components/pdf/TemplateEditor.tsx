@@ -0,0 +1,147 @@
+import React, { useRef, useState } from 'react';
+import { FieldTemplate } from '../utils/template';
+
+type TemplateEditorProps = {
+  template?: FieldTemplate;
+  headers: { index: number; label: string }[];
+  disabled?: boolean;
+  onChange: (template?: FieldTemplate) => void;
+};
+
+const TemplateEditor = ({
+  template,
+  headers,
+  disabled,
+  onChange,
+}: TemplateEditorProps) => {
+  const [open, setOpen] = useState(false);
+  const textRef = useRef<HTMLTextAreaElement>(null);
+  const text = template?.text || '';
+
+  // Wraps the selected text in <b>, <i> or <u>
+  const handleStyle = (tag: string) => {
+    const start = textRef.current?.selectionStart ?? text.length;
+    const end = textRef.current?.selectionEnd ?? text.length;
+    onChange({
+      ...template,
+      text: `${text.slice(0, start)}<${tag}>${text.slice(
+        start,
+        end
+      )}</${tag}>${text.slice(end)}`,
+    });
+  };
+
+  const handleInsert = (value: string) => {
+    const index = parseInt(value, 10);
+    const header = headers.find((h) => h.index === index);
+    if (header) {
+      onChange({ ...template, text: `${text}{${header.label}}` });
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        className={`px-2 text-xs border rounded-sm h-7 whitespace-nowrap ${
+          template ? 'bg-gray-300' : ''
+        }`}
+        onClick={() => setOpen(true)}
+        disabled={disabled}
+        title="Combine several columns with a template"
+      >
+        {'{ }'}
+      </button>
+      {open && !disabled ? (
+        <div className="absolute right-0 z-10">
+          <div
+            role="button"
+            aria-labelledby="cover"
+            className="fixed inset-0"
+            onClick={() => setOpen(false)}
+            onKeyPress={() => setOpen(false)}
+            tabIndex={0}
+          />
+          <section className="relative flex flex-col p-3 space-y-2 text-xs bg-white rounded shadow w-72">
+            <label htmlFor="templateText" className="flex flex-col space-y-1">
+              <span>Template:</span>
+              <textarea
+                id="templateText"
+                ref={textRef}
+                rows={5}
+                placeholder="e.g. Dear {Title} {LastName},"
+                value={text}
+                onChange={(e) =>
+                  onChange(
+                    e.target.value
+                      ? { ...template, text: e.target.value }
+                      : undefined
+                  )
+                }
+              />
+            </label>
+
+            <div className="flex items-center space-x-1">
+              {[
+                { tag: 'b', label: 'B', className: 'font-bold' },
+                { tag: 'i', label: 'I', className: 'italic' },
+                { tag: 'u', label: 'U', className: 'underline' },
+              ].map(({ tag, label, className }) => (
+                <button
+                  type="button"
+                  key={tag}
+                  className={`w-7 border rounded-sm h-7 ${className}`}
+                  onClick={() => handleStyle(tag)}
+                >
+                  {label}
+                </button>
+              ))}
+              <span className="text-gray-500">
+                Bold, italic or underline the selection
+              </span>
+            </div>
+
+            <label htmlFor="templateColumn" className="flex flex-col space-y-1">
+              <span>Insert column:</span>
+              <select
+                id="templateColumn"
+                value={-1}
+                onChange={(e) => handleInsert(e.target.value)}
+              >
+                {[{ index: -1, label: '---' }, ...headers].map((h) => (
+                  <option value={h.index} key={h.index}>
+                    {h.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <label
+              htmlFor="templateCollapse"
+              className="flex items-center space-x-2"
+            >
+              <input
+                id="templateCollapse"
+                type="checkbox"
+                checked={!!template?.collapseBlank}
+                disabled={!template}
+                onChange={(e) =>
+                  template &&
+                  onChange({ ...template, collapseBlank: e.target.checked })
+                }
+              />
+              <span>Remove lines left empty</span>
+            </label>
+          </section>
+        </div>
+      ) : null}
+    </div>
+  );
+};
+
+TemplateEditor.defaultProps = {
+  template: undefined,
+  disabled: false,
+};
+
+export default TemplateEditor;
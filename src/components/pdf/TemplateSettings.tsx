@@ -0,0 +1,263 @@
+import React from 'react';
+import { ipcRenderer } from 'electron';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import {
+  InsertPosition,
+  insertPositions,
+  PdfInsert,
+  TemplateChoice,
+} from '../utils/variants';
+
+type TemplateSettingsProps<L> = {
+  choice?: TemplateChoice<L>;
+  inserts: PdfInsert[];
+  headers: { index: number; label: string }[];
+  mainFile: string;
+  // Index of the variant in the editor, -1 for the main template
+  editing: number;
+  onChange: (choice?: TemplateChoice<L>) => void;
+  onChangeInserts: (inserts: PdfInsert[]) => void;
+  onEdit: (variant: number) => void;
+  onClose: () => void;
+};
+
+const fileName = (fp: string) => fp.split(/[\\/]/).pop();
+
+const choosePdf = (): Promise<string | undefined> =>
+  ipcRenderer.invoke(
+    'open-file',
+    [{ name: 'PDF Files', extensions: ['pdf'] }],
+    'path'
+  );
+
+const TemplateSettings = <L extends unknown>({
+  choice,
+  inserts,
+  headers,
+  mainFile,
+  editing,
+  onChange,
+  onChangeInserts,
+  onEdit,
+  onClose,
+}: TemplateSettingsProps<L>) => {
+  const variants = choice?.variants || [];
+
+  const handleChangeColumn = (index: number) => {
+    const label = headers.find((h) => h.index === index)?.label;
+    onChange(index === -1 ? undefined : { variants, index, label });
+  };
+
+  const handleChangeVariant = (
+    variant: number,
+    changes: { value?: string; pdfFile?: string }
+  ) => {
+    if (choice) {
+      onChange({
+        ...choice,
+        variants: variants.map((v, i) =>
+          i === variant ? { ...v, ...changes } : v
+        ),
+      });
+    }
+  };
+
+  const handleChooseVariant = async (variant: number) => {
+    const file = await choosePdf();
+    if (file) {
+      handleChangeVariant(variant, { pdfFile: file });
+    }
+  };
+
+  const handleAddInsert = async () => {
+    const file = await choosePdf();
+    if (file) {
+      onChangeInserts([...inserts, { file, position: 'before' }]);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-20 flex items-center justify-center bg-black bg-opacity-30">
+      <section className="flex flex-col w-2/3 p-6 space-y-4 overflow-y-auto bg-white rounded shadow-lg h-5/6">
+        <div className="flex items-center justify-between space-x-2">
+          <h2 className="text-lg font-bold">Templates</h2>
+          <button type="button" className="btn-link" onClick={onClose}>
+            <FontAwesomeIcon icon="times-circle" />
+          </button>
+        </div>
+
+        <label htmlFor="variantColumn" className="flex items-center space-x-2">
+          <span>Choose the template by column:</span>
+          <select
+            id="variantColumn"
+            value={choice ? choice.index : -1}
+            onChange={(e) => handleChangeColumn(parseInt(e.target.value, 10))}
+            disabled={editing !== -1}
+          >
+            {[{ index: -1, label: '---' }, ...headers].map((h) => (
+              <option value={h.index} key={h.index}>
+                {h.label}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left border-b">
+              <th className="p-1">Values</th>
+              <th className="p-1">Template</th>
+              <th className="p-1 text-right">Layout</th>
+            </tr>
+          </thead>
+          <tbody>
+            {variants.map((v, i) => (
+              // eslint-disable-next-line react/no-array-index-key
+              <tr key={i} className="border-b border-dashed">
+                <td className="p-1">
+                  <input
+                    type="text"
+                    className="w-full"
+                    placeholder="e.g. de, at"
+                    value={v.value}
+                    onChange={(e) =>
+                      handleChangeVariant(i, { value: e.target.value })
+                    }
+                  />
+                </td>
+                <td className="p-1">
+                  <button
+                    type="button"
+                    className="btn-link"
+                    onClick={() => handleChooseVariant(i)}
+                    disabled={editing === i}
+                    title={v.pdfFile}
+                  >
+                    {v.pdfFile ? fileName(v.pdfFile) : 'Choose PDF...'}
+                  </button>
+                </td>
+                <td className="p-1 space-x-2 text-right whitespace-nowrap">
+                  <button
+                    type="button"
+                    className="btn-link"
+                    onClick={() => onEdit(i)}
+                    disabled={!v.pdfFile || editing === i}
+                  >
+                    Edit layout
+                  </button>
+                  <button
+                    type="button"
+                    className="btn-link"
+                    onClick={() =>
+                      choice &&
+                      onChange({
+                        ...choice,
+                        variants: variants.filter((_v, n) => n !== i),
+                      })
+                    }
+                    disabled={editing !== -1}
+                    title="Remove"
+                  >
+                    <FontAwesomeIcon icon="times-circle" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+            <tr>
+              <td className="p-1 opacity-70">
+                {choice ? 'Any other value' : 'Every record'}
+              </td>
+              <td className="p-1" title={mainFile}>
+                {fileName(mainFile)}
+              </td>
+              <td className="p-1 text-right">
+                <button
+                  type="button"
+                  className="btn-link"
+                  onClick={() => onEdit(-1)}
+                  disabled={editing === -1}
+                >
+                  Edit layout
+                </button>
+              </td>
+            </tr>
+          </tbody>
+        </table>
+        {choice && editing === -1 ? (
+          <button
+            type="button"
+            className="self-start btn-link"
+            onClick={() =>
+              onChange({
+                ...choice,
+                variants: [...variants, { value: '', pdfFile: '' }],
+              })
+            }
+          >
+            <FontAwesomeIcon icon="plus" className="mr-1" />
+            Add template
+          </button>
+        ) : null}
+
+        <h3 className="font-bold">Static PDFs</h3>
+        <ul className="space-y-1 text-sm">
+          {inserts.map((ins, i) => (
+            <li
+              // eslint-disable-next-line react/no-array-index-key
+              key={i}
+              className="flex items-center justify-between space-x-2"
+            >
+              <span className="truncate" title={ins.file}>
+                {fileName(ins.file)}
+              </span>
+              <span className="flex items-center space-x-2">
+                <select
+                  value={ins.position}
+                  onChange={(e) =>
+                    onChangeInserts(
+                      inserts.map((n, j) =>
+                        j === i
+                          ? { ...n, position: e.target.value as InsertPosition }
+                          : n
+                      )
+                    )
+                  }
+                >
+                  {insertPositions.map(({ value, label }) => (
+                    <option value={value} key={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  className="btn-link"
+                  onClick={() =>
+                    onChangeInserts(inserts.filter((_n, j) => j !== i))
+                  }
+                  title="Remove"
+                >
+                  <FontAwesomeIcon icon="times-circle" />
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+        <button
+          type="button"
+          className="self-start btn-link"
+          onClick={handleAddInsert}
+        >
+          <FontAwesomeIcon icon="plus" className="mr-1" />
+          Add PDF...
+        </button>
+      </section>
+    </div>
+  );
+};
+
+TemplateSettings.defaultProps = {
+  choice: undefined,
+};
+
+export default TemplateSettings;
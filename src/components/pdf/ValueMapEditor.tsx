@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { ValueMapping } from '../utils/formvalue';
+
+type ValueMapEditorProps = {
+  values?: ValueMapping[];
+  // Form field type, checkboxes map to checked or unchecked
+  type: string;
+  options?: string[];
+  disabled?: boolean;
+  onChange: (values?: ValueMapping[]) => void;
+};
+
+const checkStates = ['checked', 'unchecked'];
+
+const ValueMapEditor = ({
+  values,
+  type,
+  options,
+  disabled,
+  onChange,
+}: ValueMapEditorProps) => {
+  const [open, setOpen] = useState(false);
+  const mappings = values || [];
+  const targets = type === 'CheckBox' ? checkStates : options;
+
+  const handleChange = (index: number, changes: Partial<ValueMapping>) => {
+    onChange(mappings.map((m, i) => (i === index ? { ...m, ...changes } : m)));
+  };
+
+  const handleRemove = (index: number) => {
+    const rest = mappings.filter((_m, i) => i !== index);
+    onChange(rest.length ? rest : undefined);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        className={`px-2 text-xs border rounded-sm h-7 whitespace-nowrap ${
+          mappings.length ? 'bg-gray-300' : ''
+        }`}
+        onClick={() => setOpen(true)}
+        disabled={disabled}
+        title="Replace cell values, e.g. M with Male"
+      >
+        {mappings.length ? `${mappings.length} mapped` : 'Map values'}
+      </button>
+      {open && !disabled ? (
+        <div className="absolute right-0 z-10">
+          <div
+            role="button"
+            aria-labelledby="cover"
+            className="fixed inset-0"
+            onClick={() => setOpen(false)}
+            onKeyPress={() => setOpen(false)}
+            tabIndex={0}
+          />
+          <section className="relative flex flex-col p-3 space-y-2 text-xs bg-white rounded shadow w-96">
+            <p className="opacity-70">
+              Cells matching one of the values, separated by commas, are filled
+              in as
+            </p>
+            {mappings.map((m, index) => (
+              // eslint-disable-next-line react/no-array-index-key
+              <div key={index} className="flex items-center space-x-1">
+                <input
+                  type="text"
+                  className="flex-1 min-w-0"
+                  placeholder="e.g. Y, 1, x, yes"
+                  value={m.from}
+                  onChange={(e) =>
+                    handleChange(index, { from: e.target.value })
+                  }
+                />
+                <span>→</span>
+                {targets ? (
+                  <select
+                    className="flex-1 min-w-0"
+                    value={m.to}
+                    onChange={(e) =>
+                      handleChange(index, { to: e.target.value })
+                    }
+                  >
+                    <option value="">---</option>
+                    {targets.map((t) => (
+                      <option value={t} key={t}>
+                        {t}
+                      </option>
+                    ))}
+                  </select>
+                ) : (
+                  <input
+                    type="text"
+                    className="flex-1 min-w-0"
+                    value={m.to}
+                    onChange={(e) =>
+                      handleChange(index, { to: e.target.value })
+                    }
+                  />
+                )}
+                <button
+                  type="button"
+                  className="btn-link"
+                  onClick={() => handleRemove(index)}
+                  title="Remove"
+                >
+                  <FontAwesomeIcon icon="times-circle" />
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              className="self-start btn-link"
+              onClick={() => onChange([...mappings, { from: '', to: '' }])}
+            >
+              <FontAwesomeIcon icon="plus" className="mr-1" />
+              Add mapping
+            </button>
+          </section>
+        </div>
+      ) : null}
+    </div>
+  );
+};
+
+ValueMapEditor.defaultProps = {
+  values: undefined,
+  options: undefined,
+  disabled: false,
+};
+
+export default ValueMapEditor;
@@ -0,0 +1,196 @@
+import React, { useState } from 'react';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { FilterCondition, filterOperators, RowFilter } from '../utils/filter';
+import { describeRule, hasRule, VisibilityRule } from '../utils/visibility';
+
+type VisibilityEditorProps = {
+  rule?: VisibilityRule;
+  headers: { index: number; label: string }[];
+  // What the rule applies to, e.g. "field" or "page"
+  subject?: string;
+  disabled?: boolean;
+  onChange: (rule?: VisibilityRule) => void;
+};
+
+const VisibilityEditor = ({
+  rule,
+  headers,
+  subject,
+  disabled,
+  onChange,
+}: VisibilityEditorProps) => {
+  const [open, setOpen] = useState(false);
+  const current: VisibilityRule = rule || { join: 'and', conditions: [] };
+
+  const handleAddCondition = () => {
+    onChange({
+      ...current,
+      conditions: [
+        ...current.conditions,
+        {
+          index: headers.length ? headers[0].index : -1,
+          label: headers.length ? headers[0].label : undefined,
+          operator: 'eq',
+          value: '',
+        },
+      ],
+    });
+  };
+
+  const handleChangeCondition = (
+    idx: number,
+    changes: Partial<FilterCondition>
+  ) => {
+    onChange({
+      ...current,
+      conditions: current.conditions.map((c, i) =>
+        i === idx ? { ...c, ...changes } : c
+      ),
+    });
+  };
+
+  const handleRemoveCondition = (idx: number) => {
+    const conditions = current.conditions.filter((_c, i) => i !== idx);
+    onChange(conditions.length ? { ...current, conditions } : undefined);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        className={`px-2 text-xs border rounded-sm h-7 whitespace-nowrap ${
+          hasRule(rule) ? 'bg-yellow-200' : ''
+        }`}
+        onClick={() => setOpen(true)}
+        disabled={disabled}
+        title={
+          describeRule(rule) || `Show this ${subject} for some records only`
+        }
+      >
+        Rule
+      </button>
+      {open && !disabled ? (
+        <div className="absolute right-0 z-10">
+          <div
+            role="button"
+            aria-labelledby="cover"
+            className="fixed inset-0"
+            onClick={() => setOpen(false)}
+            onKeyPress={() => setOpen(false)}
+            tabIndex={0}
+          />
+          <section className="relative flex flex-col p-3 space-y-2 text-xs bg-white rounded shadow w-96">
+            <div className="flex items-center space-x-2">
+              <select
+                value={current.hide ? 'hide' : 'show'}
+                onChange={(e) =>
+                  onChange({ ...current, hide: e.target.value === 'hide' })
+                }
+              >
+                <option value="show">Show the {subject} only when</option>
+                <option value="hide">Hide the {subject} when</option>
+              </select>
+              {current.conditions.length > 1 ? (
+                <select
+                  value={current.join}
+                  onChange={(e) =>
+                    onChange({
+                      ...current,
+                      join: e.target.value as RowFilter['join'],
+                    })
+                  }
+                >
+                  <option value="and">all match</option>
+                  <option value="or">any matches</option>
+                </select>
+              ) : null}
+            </div>
+
+            {current.conditions.map((cond, idx) => {
+              const operator = filterOperators.find(
+                (o) => o.value === cond.operator
+              );
+              return (
+                // eslint-disable-next-line react/no-array-index-key
+                <div key={idx} className="flex items-center space-x-1">
+                  <select
+                    className="w-28"
+                    value={cond.index}
+                    onChange={(e) => {
+                      const index = parseInt(e.target.value, 10);
+                      handleChangeCondition(idx, {
+                        index,
+                        label: headers.find((h) => h.index === index)?.label,
+                      });
+                    }}
+                  >
+                    {headers.map(({ index, label }) => (
+                      <option key={index} value={index}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    className="w-28"
+                    value={cond.operator}
+                    onChange={(e) =>
+                      handleChangeCondition(idx, {
+                        operator: e.target.value as FilterCondition['operator'],
+                      })
+                    }
+                  >
+                    {filterOperators.map(({ value, label }) => (
+                      <option key={value} value={value}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                  {operator?.unary ? (
+                    <p className="flex-1" />
+                  ) : (
+                    <input
+                      type="text"
+                      className="flex-1 w-0"
+                      value={cond.value}
+                      onChange={(e) =>
+                        handleChangeCondition(idx, { value: e.target.value })
+                      }
+                    />
+                  )}
+                  <button
+                    type="button"
+                    className="btn-link"
+                    onClick={() => handleRemoveCondition(idx)}
+                  >
+                    <FontAwesomeIcon
+                      icon="times-circle"
+                      className="text-gray-400"
+                    />
+                  </button>
+                </div>
+              );
+            })}
+
+            <button
+              type="button"
+              className="self-start btn-link"
+              onClick={handleAddCondition}
+              disabled={!headers.length}
+            >
+              <FontAwesomeIcon icon="plus" className="mr-1" />
+              Add condition
+            </button>
+          </section>
+        </div>
+      ) : null}
+    </div>
+  );
+};
+
+VisibilityEditor.defaultProps = {
+  rule: undefined,
+  subject: 'field',
+  disabled: false,
+};
+
+export default VisibilityEditor;
@@ -0,0 +1,123 @@
+import {
+  autoMap,
+  importMappings,
+  mappingsToCsv,
+  matchNames,
+  minScore,
+  nameScore,
+  parseMappings,
+} from './automap';
+import { parseCsv } from './csv';
+
+describe('nameScore', () => {
+  it('ignores case, accents and punctuation', () => {
+    expect(nameScore('First_Name', 'first name')).toBe(1);
+    expect(nameScore('Prénom', 'prenom')).toBe(1);
+  });
+
+  it('scores small differences high', () => {
+    expect(nameScore('Adress', 'Address')).toBeGreaterThan(0.8);
+    expect(nameScore('Zip', 'City')).toBeLessThan(minScore);
+  });
+
+  it('scores names contained in others', () => {
+    const score = nameScore('email', 'Customer Email');
+    expect(score).toBeGreaterThanOrEqual(minScore);
+    expect(score).toBeLessThan(nameScore('email', 'E-Mail'));
+  });
+
+  it('scores empty names 0', () => {
+    expect(nameScore('', 'Name')).toBe(0);
+    expect(nameScore('__', '--')).toBe(0);
+  });
+});
+
+describe('matchNames', () => {
+  it('uses every target once, best matches first', () => {
+    expect(matchNames(['Name', 'Name 2'], ['Name'])).toEqual([
+      { index: 0, score: 1 },
+      { index: -1, score: 0 },
+    ]);
+    expect(
+      matchNames(['lastname', 'name'], ['Name', 'Last Name']).map(
+        (m) => m.index
+      )
+    ).toEqual([1, 0]);
+  });
+
+  it('leaves poor matches out', () => {
+    expect(matchNames(['Signature'], ['Amount', 'City'])).toEqual([
+      { index: -1, score: 0 },
+    ]);
+  });
+});
+
+describe('autoMap', () => {
+  it('proposes a column for each field', () => {
+    const proposals = autoMap(
+      ['first_name', 'LAST_NAME', 'txtEmail', 'Signature'],
+      ['First Name', 'Last Name', 'Email', 'Phone']
+    );
+    expect(proposals.map((p) => [p.field, p.index])).toEqual([
+      ['first_name', 0],
+      ['LAST_NAME', 1],
+      ['txtEmail', 2],
+      ['Signature', -1],
+    ]);
+    expect(proposals[0].score).toBe(1);
+  });
+});
+
+describe('importMappings', () => {
+  const labels = ['Customer', 'E-Mail', 'Total'];
+
+  it('uses the exported column when it exists', () => {
+    expect(
+      importMappings(['name', 'mail'], labels, [
+        { field: 'name', label: 'Customer' },
+        { field: 'mail', label: 'E-Mail' },
+      ])
+    ).toEqual([
+      { field: 'name', index: 0, score: 1 },
+      { field: 'mail', index: 1, score: 1 },
+    ]);
+  });
+
+  it('matches renamed fields and columns again', () => {
+    const [proposal] = importMappings(['name_1'], labels, [
+      { field: 'name', label: 'Customers' },
+    ]);
+    expect(proposal.index).toBe(0);
+    expect(proposal.score).toBeGreaterThan(0);
+    expect(proposal.score).toBeLessThan(1);
+  });
+
+  it('leaves fields without a match out', () => {
+    expect(
+      importMappings(['name', 'other'], labels, [
+        { field: 'name', label: 'Removed column' },
+      ])
+    ).toEqual([
+      { field: 'name', index: -1, score: 0 },
+      { field: 'other', index: -1, score: 0 },
+    ]);
+  });
+});
+
+describe('mapping files', () => {
+  it('reads back exported mappings', () => {
+    const rows = [
+      { field: 'name', label: 'Customer, full' },
+      { field: 'mail', label: 'E-Mail' },
+    ];
+    const csv = mappingsToCsv(rows);
+    expect(csv.split('\r\n')[0]).toBe('Field,Column');
+    expect(parseMappings(parseCsv(csv, ','))).toEqual(rows);
+  });
+
+  it('reads mappings without a header and skips short lines', () => {
+    expect(
+      parseMappings([['name', 'Customer'], ['lonely'], ['', 'Total']])
+    ).toEqual([{ field: 'name', label: 'Customer' }]);
+  });
+});
@@ -0,0 +1,128 @@
+import { toCsv } from './csv';
+
+// A form field and the column proposed for it, the score goes from 0 to 1
+export interface MappingProposal {
+  field: string;
+  index: number;
+  score: number;
+}
+
+// Matches below this score are left for the user to pick
+export const minScore = 0.6;
+
+// Case, accents, spaces and punctuation don't matter, "First_Name" is
+// "firstname"
+const normalizeName = (name: string) =>
+  name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '');
+
+const distance = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_v, j) => j);
+  for (let i = 1; i <= a.length; i += 1) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j += 1) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+export const nameScore = (a: string, b: string) => {
+  const x = normalizeName(a);
+  const y = normalizeName(b);
+  if (!x || !y) {
+    return 0;
+  }
+  const longest = Math.max(x.length, y.length);
+  const similar = 1 - distance(x, y) / longest;
+  // Prefixes and suffixes, "email" in "customeremail"
+  const contained =
+    x.includes(y) || y.includes(x)
+      ? 0.5 + (0.4 * Math.min(x.length, y.length)) / longest
+      : 0;
+  return Math.max(similar, contained);
+};
+
+// Pairs every source with the target it matches best, a target is used
+// once. Unmatched sources get index -1.
+export const matchNames = (sources: string[], targets: string[]) => {
+  const pairs = sources
+    .flatMap((source, s) =>
+      targets.map((target, t) => ({ s, t, score: nameScore(source, target) }))
+    )
+    .filter((p) => p.score >= minScore)
+    .sort((a, b) => b.score - a.score || a.s - b.s || a.t - b.t);
+
+  const matches = sources.map(() => ({ index: -1, score: 0 }));
+  const used = new Set<number>();
+  pairs.forEach(({ s, t, score }) => {
+    if (matches[s].index === -1 && !used.has(t)) {
+      matches[s] = { index: t, score };
+      used.add(t);
+    }
+  });
+  return matches;
+};
+
+export const autoMap = (
+  fields: string[],
+  labels: string[]
+): MappingProposal[] =>
+  matchNames(fields, labels).map((m, i) => ({ field: fields[i], ...m }));
+
+// Field names and column labels may have changed a little since the mapping
+// was exported, both are matched again
+export const importMappings = (
+  fields: string[],
+  labels: string[],
+  rows: { field: string; label: string }[]
+): MappingProposal[] => {
+  const byField = matchNames(
+    fields,
+    rows.map((r) => r.field)
+  );
+  return fields.map((field, f) => {
+    const { index: r, score } = byField[f];
+    if (r === -1) {
+      return { field, index: -1, score: 0 };
+    }
+    const { label } = rows[r];
+    const exact = labels.indexOf(label);
+    if (exact !== -1) {
+      return { field, index: exact, score };
+    }
+    const best = labels.reduce(
+      (p, l, index) => {
+        const s = nameScore(label, l);
+        return s > p.score ? { index, score: s } : p;
+      },
+      { index: -1, score: 0 }
+    );
+    return best.score >= minScore
+      ? { field, index: best.index, score: score * best.score }
+      : { field, index: -1, score: 0 };
+  });
+};
+
+export const mappingsToCsv = (rows: { field: string; label: string }[]) =>
+  toCsv([['Field', 'Column'], ...rows.map((r) => [r.field, r.label])]);
+
+// Field and column pairs of an exported mapping, the header line is optional
+export const parseMappings = (csvRows: string[][]) => {
+  const rows = csvRows
+    .filter((r) => r.length >= 2 && r[0].trim())
+    .map(([field, label]) => ({ field, label }));
+  const [first] = rows;
+  if (first && first.field === 'Field' && first.label === 'Column') {
+    rows.shift();
+  }
+  return rows;
+};
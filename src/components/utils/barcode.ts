@@ -0,0 +1,41 @@
+export interface BarcodeOptions {
+  showText?: boolean;
+  // Bar height in millimeters, linear codes only
+  barHeight?: number;
+  // Blank margin around the symbol, in modules
+  quietZone?: number;
+  // L, M, Q or H for QR codes, 0 to 8 for PDF417
+  ecLevel?: string;
+}
+
+export interface BarcodeType {
+  value: string;
+  label: string;
+  // Symbology name in bwip-js, QR codes are drawn with qrcode
+  bcid?: string;
+  linear?: boolean;
+  ecLevels?: string[];
+}
+
+export const barcodeTypes: BarcodeType[] = [
+  { value: 'qrcode', label: 'QR code', ecLevels: ['L', 'M', 'Q', 'H'] },
+  { value: 'code128', label: 'Code 128', bcid: 'code128', linear: true },
+  { value: 'ean13', label: 'EAN-13', bcid: 'ean13', linear: true },
+  { value: 'upca', label: 'UPC-A', bcid: 'upca', linear: true },
+  { value: 'datamatrix', label: 'DataMatrix', bcid: 'datamatrix' },
+  {
+    value: 'pdf417',
+    label: 'PDF417',
+    bcid: 'pdf417',
+    ecLevels: ['0', '1', '2', '3', '4', '5', '6', '7', '8'],
+  },
+];
+
+export const getBarcodeType = (renderType?: string) =>
+  barcodeTypes.find((t) => t.value === renderType);
+
+// Levels saved for another type of code are left out
+export const getEcLevel = (type: BarcodeType, options?: BarcodeOptions) =>
+  options?.ecLevel && type.ecLevels?.includes(options.ecLevel)
+    ? options.ecLevel
+    : undefined;
@@ -0,0 +1,69 @@
+import { FieldFormat } from './format';
+import { ValueMapping } from './formvalue';
+import { FieldTemplate } from './template';
+
+export interface FieldBinding {
+  index: number;
+  label?: string;
+}
+
+export interface FormMapping extends FieldBinding {
+  format?: FieldFormat;
+  // Takes the place of the bound column when set
+  template?: FieldTemplate;
+  // Cell values replaced before filling in a form field
+  values?: ValueMapping[];
+}
+
+export interface BoundObject {
+  index?: number;
+  label?: string;
+  text?: string;
+}
+
+// Configs saved before labels were stored only have the column index
+export type SavedBinding = FormMapping | number;
+
+export const toBinding = (binding?: SavedBinding): FormMapping => {
+  if (binding === undefined || binding === null) {
+    return { index: -1 };
+  }
+  return typeof binding === 'number' ? { index: binding } : binding;
+};
+
+// Returns -1 when the bound column no longer exists
+export const findIndex = (labels: string[], binding: FieldBinding) => {
+  if (binding.label === undefined || labels[binding.index] === binding.label) {
+    return binding.index;
+  }
+  return labels.indexOf(binding.label);
+};
+
+export const bindIndex = (labels: string[], binding: FieldBinding) => {
+  const index = findIndex(labels, binding);
+  if (index === -1) {
+    throw new Error(
+      `Column "${binding.label}" is missing from the Excel file, please remap it in the editor`
+    );
+  }
+  return index;
+};
+
+export const rebindObjects = <T extends BoundObject>(
+  objects: T[],
+  targets: Record<string, FieldBinding | null>
+) =>
+  objects
+    .filter((o) => o.label === undefined || targets[o.label] !== null)
+    .map((o) => {
+      const target = o.label !== undefined && targets[o.label];
+      if (!target) {
+        return o;
+      }
+      return {
+        ...o,
+        index: target.index,
+        label: target.label,
+        text: o.text === o.label ? target.label : o.text,
+      };
+    });
@@ -0,0 +1,127 @@
+import {
+  decodeText,
+  detectEncoding,
+  isCsvFile,
+  parseCsv,
+  sniffDelimiter,
+  toCsv,
+} from './csv';
+
+describe('parseCsv', () => {
+  it('splits lines and cells', () => {
+    expect(parseCsv('a,b\n1,2\r\n3,4\r5,6', ',')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+      ['3', '4'],
+      ['5', '6'],
+    ]);
+  });
+
+  it('reads quoted cells', () => {
+    expect(parseCsv('"a,b","say ""hi""","line\r\nbreak"\n', ',')).toEqual([
+      ['a,b', 'say "hi"', 'line\r\nbreak'],
+    ]);
+    // Quotes inside a cell are kept as they are
+    expect(parseCsv('5" disk,x', ',')).toEqual([['5" disk', 'x']]);
+  });
+
+  it('keeps empty cells', () => {
+    expect(parseCsv('a;;c;\n;;;', ';')).toEqual([
+      ['a', '', 'c', ''],
+      ['', '', '', ''],
+    ]);
+    expect(parseCsv('""\n', ',')).toEqual([['']]);
+  });
+
+  it('leaves out empty lines', () => {
+    expect(parseCsv('a,b\r\n\r\n1,2\r\n\r\n', ',')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+    expect(parseCsv('\n\na\n\n', ',')).toEqual([['a']]);
+    expect(parseCsv('', ',')).toEqual([]);
+  });
+
+  it('drops the separator hint', () => {
+    expect(parseCsv('sep=;\na;b\n', ';')).toEqual([['a', 'b']]);
+  });
+});
+
+describe('sniffDelimiter', () => {
+  it('picks the delimiter every line has', () => {
+    expect(sniffDelimiter('a;b;c\n1,5;2;3\n4;5;6')).toBe(';');
+    expect(sniffDelimiter('a\tb\n1\t2')).toBe('\t');
+    expect(sniffDelimiter('a|b\n1|2')).toBe('|');
+  });
+
+  it('ignores delimiters in quotes', () => {
+    expect(sniffDelimiter('"a,b";c\n"1,2";3')).toBe(';');
+  });
+
+  it('follows the separator hint', () => {
+    expect(sniffDelimiter('sep=|\na,b')).toBe('|');
+  });
+
+  it('falls back to the file type', () => {
+    expect(sniffDelimiter('single', 'data.tsv')).toBe('\t');
+    expect(sniffDelimiter('single', 'data.csv')).toBe(',');
+  });
+});
+
+describe('detectEncoding', () => {
+  it('reads byte order marks', () => {
+    expect(detectEncoding(Buffer.from([0xef, 0xbb, 0xbf, 0x61]))).toBe('utf-8');
+    expect(detectEncoding(Buffer.from([0xff, 0xfe, 0x61, 0]))).toBe('utf-16le');
+    expect(detectEncoding(Buffer.from([0xfe, 0xff, 0, 0x61]))).toBe('utf-16be');
+  });
+
+  it('recognizes UTF-16 without a byte order mark', () => {
+    expect(detectEncoding(Buffer.from('a,b\n1,2', 'utf16le'))).toBe('utf-16le');
+    expect(detectEncoding(Buffer.from('a,b\n1,2', 'utf16le').swap16())).toBe(
+      'utf-16be'
+    );
+  });
+
+  it('tells UTF-8 from Windows-1252', () => {
+    expect(detectEncoding(Buffer.from('Müller', 'utf8'))).toBe('utf-8');
+    expect(detectEncoding(Buffer.from('Müller', 'latin1'))).toBe(
+      'windows-1252'
+    );
+  });
+});
+
+describe('decodeText', () => {
+  it('decodes and drops the byte order mark', () => {
+    expect(decodeText(Buffer.from('\uFEFFa,b', 'utf8'), 'utf-8')).toBe('a,b');
+    expect(
+      decodeText(Buffer.from('\uFEFFé', 'utf16le').swap16(), 'utf-16be')
+    ).toBe('é');
+  });
+
+  it('maps the Windows-1252 range', () => {
+    const buff = Buffer.from([0x80, 0x20, 0x93, 0x61, 0x94, 0xe9]);
+    expect(decodeText(buff, 'windows-1252')).toBe('€ “a”é');
+    expect(decodeText(buff, 'iso-8859-1')).toBe('\u0080 \u0093a\u0094é');
+  });
+});
+
+describe('toCsv', () => {
+  it('quotes cells when needed and reads back the same', () => {
+    const rows = [
+      ['plain', 'a,b', 'say "hi"'],
+      ['two\nlines', '', 'x;y'],
+    ];
+    const text = toCsv(rows);
+    expect(text).toBe('plain,"a,b","say ""hi"""\r\n"two\nlines",,x;y');
+    expect(parseCsv(text, ',')).toEqual(rows);
+    expect(toCsv([['x;y']], ';')).toBe('"x;y"');
+  });
+});
+
+describe('isCsvFile', () => {
+  it('checks the extension', () => {
+    expect(isCsvFile('/data/list.CSV')).toBe(true);
+    expect(isCsvFile('list.tsv')).toBe(true);
+    expect(isCsvFile('list.xlsx')).toBe(false);
+  });
+});
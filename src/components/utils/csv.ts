@@ -0,0 +1,232 @@
+import fs from 'fs';
+import XLSX from 'xlsx';
+
+export const csvExtensions = ['csv', 'tsv', 'txt'];
+
+export const csvDelimiters = [
+  { value: ',', label: 'Comma' },
+  { value: ';', label: 'Semicolon' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe' },
+];
+
+export const csvEncodings = [
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'utf-16le', label: 'UTF-16 LE' },
+  { value: 'utf-16be', label: 'UTF-16 BE' },
+  { value: 'windows-1252', label: 'Windows-1252' },
+  { value: 'iso-8859-1', label: 'ISO-8859-1' },
+];
+
+export interface CsvOptions {
+  delimiter?: string;
+  encoding?: string;
+}
+
+// Windows-1252 differs from latin1 only in the 0x80-0x9F range
+const cp1252 = '€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008dŽ\u008f\u0090‘’“”•–—˜™š›œ\u009džŸ';
+
+export const isCsvFile = (fp: string) =>
+  csvExtensions.includes((fp.split('.').pop() || '').toLowerCase());
+
+export const detectEncoding = (buff: Buffer) => {
+  if (buff[0] === 0xef && buff[1] === 0xbb && buff[2] === 0xbf) {
+    return 'utf-8';
+  }
+  if (buff[0] === 0xff && buff[1] === 0xfe) {
+    return 'utf-16le';
+  }
+  if (buff[0] === 0xfe && buff[1] === 0xff) {
+    return 'utf-16be';
+  }
+
+  // UTF-16 without BOM: ASCII text leaves every other byte empty
+  const sample = buff.slice(0, 1024);
+  let evenZeros = 0;
+  let oddZeros = 0;
+  sample.forEach((b, i) => {
+    if (b === 0) {
+      if (i % 2 === 0) {
+        evenZeros += 1;
+      } else {
+        oddZeros += 1;
+      }
+    }
+  });
+  if (oddZeros > sample.length / 4) {
+    return 'utf-16le';
+  }
+  if (evenZeros > sample.length / 4) {
+    return 'utf-16be';
+  }
+
+  return buff.toString('utf8').includes('\uFFFD') ? 'windows-1252' : 'utf-8';
+};
+
+export const decodeText = (buff: Buffer, encoding: string) => {
+  let text: string;
+  switch (encoding) {
+    case 'utf-16le':
+      text = buff.toString('utf16le');
+      break;
+    case 'utf-16be': {
+      const swapped = Buffer.from(
+        buff.slice(0, buff.length - (buff.length % 2))
+      );
+      text = swapped.swap16().toString('utf16le');
+      break;
+    }
+    case 'windows-1252':
+      text = buff
+        .toString('latin1')
+        .replace(/[\u0080-\u009f]/g, (c) => cp1252[c.charCodeAt(0) - 0x80]);
+      break;
+    case 'iso-8859-1':
+      text = buff.toString('latin1');
+      break;
+    default:
+      text = buff.toString('utf8');
+  }
+  return text.replace(/^\uFEFF/, '');
+};
+
+const countOutsideQuotes = (line: string, delimiter: string) => {
+  let count = 0;
+  let quoted = false;
+  for (let i = 0; i < line.length; i += 1) {
+    if (line[i] === '"') {
+      quoted = !quoted;
+    } else if (!quoted && line[i] === delimiter) {
+      count += 1;
+    }
+  }
+  return count;
+};
+
+export const sniffDelimiter = (text: string, fp = '') => {
+  const fallback = fp.toLowerCase().endsWith('.tsv') ? '\t' : ',';
+  const lines = text
+    .split(/\r\n|\n|\r/)
+    .filter((l) => l.trim())
+    .slice(0, 20);
+
+  // Excel writes a "sep=;" hint as the first line
+  const hint = /^sep=(.)$/i.exec(lines[0] || '');
+  if (hint) {
+    return hint[1];
+  }
+
+  let best = fallback;
+  let bestScore = 0;
+  csvDelimiters.forEach(({ value }) => {
+    const counts = lines.map((l) => countOutsideQuotes(l, value));
+    const min = Math.min(...counts);
+    if (!counts.length || min === 0) {
+      return;
+    }
+    // Prefer delimiters that split every line into the same number of cells
+    const consistent = counts.filter((c) => c === counts[0]).length;
+    const score = (consistent / counts.length) * 1000 + min;
+    if (score > bestScore) {
+      best = value;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+// Empty lines are left out like blank rows of a spreadsheet, lines with only
+// delimiters are records with empty cells
+export const parseCsv = (text: string, delimiter: string) => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let blank = true;
+
+  for (let i = 0; i < text.length; i += 1) {
+    const c = text[i];
+    if (c !== '\n' && c !== '\r') {
+      blank = false;
+    }
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i += 1;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        cell += c;
+      }
+    } else if (c === '"' && cell === '') {
+      quoted = true;
+    } else if (c === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') {
+        i += 1;
+      }
+      if (!blank) {
+        row.push(cell);
+        rows.push(row);
+      }
+      row = [];
+      cell = '';
+      blank = true;
+    } else {
+      cell += c;
+    }
+  }
+
+  if (!blank) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  if (rows.length && /^sep=.$/i.test(rows[0].join(delimiter))) {
+    rows.shift();
+  }
+  return rows;
+};
+
+export const readCsv = (fp: string, options?: CsvOptions) => {
+  const buff = fs.readFileSync(fp);
+  const encoding = options?.encoding || detectEncoding(buff);
+  const text = decodeText(buff, encoding);
+  const delimiter = options?.delimiter || sniffDelimiter(text, fp);
+  return { rows: parseCsv(text, delimiter), encoding, delimiter };
+};
+
+export const readCsvWorkbook = (
+  fp: string,
+  sheetRows: number,
+  options?: CsvOptions
+) => {
+  const { rows, encoding, delimiter } = readCsv(fp, options);
+  const sheet = XLSX.utils.aoa_to_sheet(rows.slice(0, sheetRows));
+
+  // Mimic XLSX.readFile with sheetRows, which keeps the full range here
+  const cols = rows.reduce((max, r) => Math.max(max, r.length), 1);
+  sheet['!fullref'] = XLSX.utils.encode_range({
+    s: { r: 0, c: 0 },
+    e: { r: Math.max(0, rows.length - 1), c: cols - 1 },
+  });
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, 'Sheet1');
+  return { workbook, encoding, delimiter };
+};
+
+export const toCsv = (rows: string[][], delimiter = ',') =>
+  rows
+    .map((row) =>
+      row
+        .map((cell) =>
+          /["\n\r]/.test(cell) || cell.includes(delimiter)
+            ? `"${cell.replace(/"/g, '""')}"`
+            : cell
+        )
+        .join(delimiter)
+    )
+    .join('\r\n');
@@ -0,0 +1,45 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import XLSX from 'xlsx';
+import { readExcelMeta, readSheet } from './excel';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'excel-'));
+let files = 0;
+
+afterAll(() => fs.rmdirSync(dir, { recursive: true }));
+
+const writeSheet = (cells: XLSX.WorkSheet) => {
+  files += 1;
+  const fp = path.join(dir, `data${files}.xlsx`);
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, cells, 'Sheet1');
+  XLSX.writeFile(workbook, fp);
+  return fp;
+};
+
+describe('header labels', () => {
+  it('are the same in the editor and the merge', async () => {
+    const sheet = XLSX.utils.aoa_to_sheet([
+      ['Name', 44927, 0.5],
+      ['Anna', 10, 20],
+    ]);
+    sheet.B1.z = 'm/d/yy';
+    sheet.C1.z = '0%';
+    const fp = writeSheet(sheet);
+
+    const { firstRow } = await readExcelMeta(fp);
+    const { labels } = readSheet(fp, 10);
+    expect(firstRow.map((h) => h.label)).toEqual(['Name', '1/1/23', '50%']);
+    expect(labels).toEqual(firstRow.map((h) => h.label));
+  });
+
+  it('name columns after their letters without a header', async () => {
+    const fp = writeSheet(XLSX.utils.aoa_to_sheet([['Anna', 'Berlin']]));
+    const { firstRow } = await readExcelMeta(fp, { headerRow: 0 });
+    const { labels, rows } = readSheet(fp, 10, { headerRow: 0 });
+    expect(labels).toEqual(['Column A', 'Column B']);
+    expect(firstRow.map((h) => h.label)).toEqual(labels);
+    expect(rows[0][1]).toBe('Berlin');
+  });
+});
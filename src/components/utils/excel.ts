@@ -1,4 +1,30 @@
 import XLSX from 'xlsx';
+import { bindIndex, FieldBinding } from './binding';
+import { CsvOptions, isCsvFile, readCsvWorkbook } from './csv';
+import { filterRows, RowFilter } from './filter';
+import { hasSelection, RowSelection, selectRows } from './selection';
+
+export interface DataOptions extends CsvOptions {
+  sheetName?: string;
+  // 1-based row number as shown in the spreadsheet, 0 means no header
+  headerRow?: number;
+  filter?: RowFilter;
+  selection?: RowSelection;
+  // One output per distinct value of this column instead of per row
+  groupBy?: FieldBinding;
+}
+
+export interface RowMap {
+  [index: number]: string;
+  // Unformatted cell values, for fields with their own format
+  raw?: unknown[];
+}
+
+interface DataWorkbook {
+  workbook: XLSX.WorkBook;
+  encoding?: string;
+  delimiter?: string;
+}
 
 export const getRowsLimit = () => {
   if (process.env.PAID) {
@@ -7,28 +33,191 @@ export const getRowsLimit = () => {
   return 10;
 };
 
-export const readExcelMeta = async (fp: string) => {
+export const readWorkbook = (
+  fp: string,
+  sheetRows: number,
+  options?: DataOptions
+): DataWorkbook => {
+  if (isCsvFile(fp)) {
+    return readCsvWorkbook(fp, sheetRows, options);
+  }
+  return { workbook: XLSX.readFile(fp, { sheetRows }) };
+};
+
+export const getHeaderRow = (options?: DataOptions) => options?.headerRow ?? 1;
+
+export const getSheet = (workbook: XLSX.WorkBook, options?: DataOptions) => {
+  const name =
+    options?.sheetName && workbook.SheetNames.includes(options.sheetName)
+      ? options.sheetName
+      : workbook.SheetNames[0];
+  return workbook.Sheets[name];
+};
+
+const sheetToArray = (sheet: XLSX.WorkSheet) => {
+  const result = [];
+  const raws = [];
+  if (sheet['!ref']) {
+    const range = XLSX.utils.decode_range(sheet['!ref']);
+    for (let rowNum = range.s.r; rowNum <= range.e.r; rowNum += 1) {
+      const row = [];
+      const raw = [];
+      for (let colNum = range.s.c; colNum <= range.e.c; colNum += 1) {
+        const nextCell =
+          sheet[XLSX.utils.encode_cell({ r: rowNum, c: colNum })];
+        if (!nextCell) {
+          row.push('');
+          raw.push('');
+        } else {
+          // Keep dates, currencies and decimals as shown in the sheet
+          row.push(nextCell.w ?? nextCell.v);
+          raw.push(nextCell.v);
+        }
+      }
+      result.push(row);
+      raws.push(raw);
+    }
+  }
+  return { result, raws };
+};
+
+export const headerLabels = (
+  sheet: XLSX.WorkSheet,
+  sheetData: unknown[][],
+  headerRow: number
+) => {
+  const ref = sheet['!fullref'] || sheet['!ref'];
+  if (!ref) {
+    return [];
+  }
+  const range = XLSX.utils.decode_range(ref);
+  if (headerRow) {
+    const header = sheetData[headerRow - 1 - range.s.r] || [];
+    return header.map((l) => `${l}`);
+  }
+
+  // No header, name columns after their spreadsheet letters
+  const labels: string[] = [];
+  for (let col = range.s.c; col <= range.e.c; col += 1) {
+    labels.push(`Column ${XLSX.utils.encode_col(col)}`);
+  }
+  return labels;
+};
+
+export const readExcelMeta = async (fp: string, options?: DataOptions) => {
   // Read headers
-  const workbook = XLSX.readFile(fp, { sheetRows: 1 });
-  const sheetsList = workbook.SheetNames;
-  const firstSheet = workbook.Sheets[sheetsList[0]];
-  const sheetData = XLSX.utils.sheet_to_json(firstSheet, {
-    header: 1,
-    defval: '',
-    blankrows: true,
-  });
-  const labels = sheetData.map((_v, _i, array) => array).flat(2);
+  const headerRow = getHeaderRow(options);
+  const { workbook, encoding, delimiter } = readWorkbook(
+    fp,
+    Math.max(headerRow, 1),
+    options
+  );
+  const sheet = getSheet(workbook, options);
+  // Labels as the merge reads them, dates and percentages as shown
+  const { result } = sheetToArray(sheet);
+
+  const labels = headerLabels(sheet, result, headerRow);
   const firstRow = labels.map((label, index) => ({
     index,
-    label: label as string,
+    label,
   }));
 
+  const ref = sheet['!fullref'] || sheet['!ref'];
   let rowCount = getRowsLimit();
-  if (firstSheet['!fullref']) {
-    const range = XLSX.utils.decode_range(firstSheet['!fullref']);
-    const realRows = range.e.r - range.s.r;
-    rowCount = Math.min(rowCount, realRows);
+  if (ref) {
+    const range = XLSX.utils.decode_range(ref);
+    const realRows = range.e.r + 1 - Math.max(headerRow, range.s.r);
+    rowCount = Math.max(0, Math.min(rowCount, realRows));
+  }
+
+  return {
+    firstRow,
+    rowCount,
+    sheetNames: workbook.SheetNames,
+    encoding,
+    delimiter,
+  };
+};
+
+export const readSheet = (
+  path: string,
+  rowsLimit: number,
+  dataOptions?: DataOptions
+) => {
+  const headerRow = getHeaderRow(dataOptions);
+  const filter = dataOptions?.filter;
+  const selection = dataOptions?.selection;
+
+  // Matching rows can be anywhere, so read up to the full limit
+  const picking = !!filter?.conditions.length || hasSelection(selection);
+  const readRows = picking ? Math.max(rowsLimit, getRowsLimit()) : rowsLimit;
+  const sheetRows = readRows + headerRow;
+
+  const { workbook } = readWorkbook(path, sheetRows, dataOptions);
+  const sheet = getSheet(workbook, dataOptions);
+  const start = sheet['!ref'] ? XLSX.utils.decode_range(sheet['!ref']).s.r : 0;
+  const { result, raws } = sheetToArray(sheet);
+  const labels = headerLabels(sheet, result, headerRow);
+  const skip = Math.max(0, headerRow - start);
+  const rows = result
+    .slice(skip) // Skip header
+    .map((arr, idx) => {
+      const row: RowMap = { raw: raws[idx + skip] };
+      arr.forEach((r, i) => {
+        row[i] = r;
+      });
+      return row;
+    });
+  return {
+    labels,
+    rows: filterRows(selectRows(rows, selection), labels, filter).slice(
+      0,
+      rowsLimit
+    ),
+  };
+};
+
+// Rows don't need to be sorted, groups keep the order they first appear in
+export const groupRows = <T extends RowMap>(
+  rows: T[],
+  labels: string[],
+  groupBy: FieldBinding
+) => {
+  const index = bindIndex(labels, groupBy);
+  const groups = new Map<string, T[]>();
+  rows.forEach((row) => {
+    const value = row[index];
+    const key = value === undefined || value === null ? '' : `${value}`.trim();
+    const group = groups.get(key);
+    if (group) {
+      group.push(row);
+    } else {
+      groups.set(key, [row]);
+    }
+  });
+  return Array.from(groups.values());
+};
+
+// Without a group column every row is a group of its own
+export const readGroups = (
+  path: string,
+  rowsLimit: number,
+  dataOptions?: DataOptions
+) => {
+  const groupBy = dataOptions?.groupBy;
+  if (!groupBy || groupBy.index === -1) {
+    const { labels, rows } = readSheet(path, rowsLimit, dataOptions);
+    return { labels, groups: rows.map((row) => [row]) };
   }
 
-  return { firstRow, rowCount };
+  // Rows of a group can be anywhere, so read up to the full limit
+  const { labels, rows } = readSheet(
+    path,
+    Math.max(rowsLimit, getRowsLimit()),
+    dataOptions
+  );
+  return {
+    labels,
+    groups: groupRows(rows, labels, groupBy).slice(0, rowsLimit),
+  };
 };
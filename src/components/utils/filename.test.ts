@@ -0,0 +1,72 @@
+import {
+  expandFileName,
+  missingFileLabel,
+  numberedFile,
+  sanitizeFileName,
+} from './filename';
+
+describe('sanitizeFileName', () => {
+  it('replaces characters Windows does not allow', () => {
+    expect(sanitizeFileName('a<b>c:d"e/f\\g|h?i*j')).toBe(
+      'a_b_c_d_e_f_g_h_i_j'
+    );
+    expect(sanitizeFileName('tab\there\n')).toBe('tab_here_');
+  });
+
+  it('drops trailing dots and spaces', () => {
+    expect(sanitizeFileName('  Smith. . ')).toBe('Smith');
+    expect(sanitizeFileName('...')).toBe('');
+  });
+
+  it('renames reserved device names', () => {
+    expect(sanitizeFileName('CON')).toBe('_CON');
+    expect(sanitizeFileName('lpt1.pdf')).toBe('_lpt1.pdf');
+    expect(sanitizeFileName('Connor.pdf')).toBe('Connor.pdf');
+  });
+});
+
+describe('expandFileName', () => {
+  const labels = ['Region', 'Id', 'Name'];
+  const row = { 0: 'North', 1: '42', 2: 'Smith/Jones' };
+
+  it('fills in columns', () => {
+    expect(expandFileName(row, labels, '{Id} - {Name}.pdf')).toBe(
+      '42 - Smith_Jones.pdf'
+    );
+  });
+
+  it('makes folders of template slashes only', () => {
+    expect(expandFileName(row, labels, '{Region}/{Name}.pdf')).toBe(
+      'North/Smith_Jones.pdf'
+    );
+    expect(expandFileName(row, labels, '{Region}\\{Id}.pdf')).toBe(
+      'North/42.pdf'
+    );
+  });
+
+  it('leaves out empty folders', () => {
+    const empty = { 0: '', 1: '7', 2: 'Lee' };
+    expect(expandFileName(empty, labels, '{Region}/{Id}.pdf')).toBe('7.pdf');
+    expect(expandFileName(row, labels, '/{Id}//x.pdf')).toBe('42/x.pdf');
+  });
+
+  it('keeps names in the output folder', () => {
+    const up = { 0: '..', 1: '1', 2: '' };
+    expect(expandFileName(up, labels, '{Region}/{Id}.pdf')).toBe('1.pdf');
+  });
+});
+
+describe('missingFileLabel', () => {
+  it('finds columns the data does not have', () => {
+    expect(missingFileLabel(['Id'], '{Id}/{ Name }.pdf')).toBe('Name');
+    expect(missingFileLabel(['Id'], '{Id}.pdf')).toBeUndefined();
+  });
+});
+
+describe('numberedFile', () => {
+  it('numbers the name before the extension', () => {
+    expect(numberedFile('out/Smith.pdf', 2)).toBe('out/Smith (2).pdf');
+    expect(numberedFile('out.v1/Smith', 3)).toBe('out.v1/Smith (3)');
+    expect(numberedFile('a.tar.gz', 2)).toBe('a.tar (2).gz');
+  });
+});
@@ -0,0 +1,56 @@
+import { FormattedRow } from './format';
+import { expandTemplate, templateLabels } from './template';
+
+export type FileCollision = 'suffix' | 'overwrite';
+
+export const fileCollisions: { value: FileCollision; label: string }[] = [
+  { value: 'suffix', label: 'Add a number' },
+  { value: 'overwrite', label: 'Overwrite' },
+];
+
+// Names of the files saved for each record, e.g. "{Region}/{LastName}.pdf"
+export interface FileNaming {
+  template: string;
+  collision: FileCollision;
+}
+
+const reservedNames = /^(con|prn|aux|nul|com\d|lpt\d)(\..*)?$/i;
+
+// Safe on Windows, macOS and Linux
+export const sanitizeFileName = (name: string) => {
+  const cleaned = Array.from(name.replace(/[<>:"/\\|?*]/g, '_'))
+    .map((c) => (c < ' ' ? '_' : c))
+    .join('')
+    .trim()
+    // Windows drops trailing dots and spaces
+    .replace(/[. ]+$/, '');
+  return reservedNames.test(cleaned) ? `_${cleaned}` : cleaned;
+};
+
+export const missingFileLabel = (labels: string[], template: string) =>
+  templateLabels(template).find((label) => !labels.includes(label));
+
+// Path relative to the output folder, slashes in the template make folders,
+// slashes in values don't. Empty folder names are left out.
+export const expandFileName = (
+  row: FormattedRow,
+  labels: string[],
+  template: string
+) =>
+  template
+    .split(/[\\/]/)
+    .map((segment) =>
+      sanitizeFileName(
+        expandTemplate(row, labels, { text: segment }, (value) =>
+          value.replace(/[\\/]/g, '_')
+        )
+      )
+    )
+    .filter((segment) => segment)
+    .join('/');
+
+// "Smith.pdf" becomes "Smith (2).pdf"
+export const numberedFile = (fp: string, n: number) => {
+  const match = /^(.*?)(\.[^./\\]*)?$/.exec(fp);
+  return `${match?.[1] ?? fp} (${n})${match?.[2] || ''}`;
+};
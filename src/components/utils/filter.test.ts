@@ -0,0 +1,135 @@
+import { FormattedRow } from './format';
+import {
+  FilterCondition,
+  FilterOperator,
+  filterRows,
+  matchRow,
+  RowFilter,
+} from './filter';
+
+const labels = ['Name', 'City', 'Amount'];
+
+const row = (name: string, city: string, amount: string, raw?: unknown) => {
+  const r: FormattedRow = { 0: name, 1: city, 2: amount };
+  if (raw !== undefined) {
+    r.raw = [name, city, raw];
+  }
+  return r;
+};
+
+const condition = (
+  index: number,
+  operator: FilterOperator,
+  value = ''
+): FilterCondition => ({ index, label: labels[index], operator, value });
+
+const where = (...conditions: FilterCondition[]): RowFilter => ({
+  join: 'and',
+  conditions,
+});
+
+describe('matchRow', () => {
+  const anna = row('Anna', 'Berlin', '1,234.50', 1234.5);
+
+  it('compares text without case or accents', () => {
+    expect(matchRow(anna, labels, where(condition(1, 'eq', 'berlin')))).toBe(
+      true
+    );
+    expect(
+      matchRow(row('Zoë', '', ''), labels, where(condition(0, 'eq', 'zoe')))
+    ).toBe(true);
+    expect(matchRow(anna, labels, where(condition(1, 'ne', 'Berlin')))).toBe(
+      false
+    );
+  });
+
+  it('finds text in cells', () => {
+    const match = (operator: FilterOperator, value: string) =>
+      matchRow(anna, labels, where(condition(1, operator, value)));
+    expect(match('contains', 'ERL')).toBe(true);
+    expect(match('notContains', 'erl')).toBe(false);
+    expect(match('startsWith', 'ber')).toBe(true);
+    expect(match('endsWith', 'lin')).toBe(true);
+    expect(match('endsWith', 'ber')).toBe(false);
+  });
+
+  it('compares numbers by their value', () => {
+    const match = (operator: FilterOperator, value: string) =>
+      matchRow(anna, labels, where(condition(2, operator, value)));
+    expect(match('eq', '1234.5')).toBe(true);
+    expect(match('gt', '999')).toBe(true);
+    expect(match('gte', '1234.50')).toBe(true);
+    expect(match('lt', '1234.5')).toBe(false);
+    expect(match('lte', '1300')).toBe(true);
+    // Not 1234.5 as text, which sorts before 999
+    expect(match('lt', '999')).toBe(false);
+  });
+
+  it('compares plain text numbers', () => {
+    const r = row('Ben', 'Paris', '10');
+    expect(matchRow(r, labels, where(condition(2, 'gt', '9')))).toBe(true);
+    expect(matchRow(r, labels, where(condition(2, 'eq', '10.0')))).toBe(true);
+  });
+
+  it('checks for empty cells', () => {
+    const r = row('Ben', '  ', '');
+    expect(matchRow(r, labels, where(condition(1, 'empty')))).toBe(true);
+    expect(matchRow(r, labels, where(condition(0, 'notEmpty')))).toBe(true);
+    expect(matchRow({}, labels, where(condition(2, 'empty')))).toBe(true);
+  });
+
+  it('joins conditions with and or or', () => {
+    const conditions = [
+      condition(1, 'eq', 'Paris'),
+      condition(0, 'eq', 'Anna'),
+    ];
+    expect(matchRow(anna, labels, { join: 'and', conditions })).toBe(false);
+    expect(matchRow(anna, labels, { join: 'or', conditions })).toBe(true);
+  });
+
+  it('matches every row without conditions', () => {
+    expect(matchRow(anna, labels)).toBe(true);
+    expect(matchRow(anna, labels, where())).toBe(true);
+    expect(
+      matchRow(anna, labels, where({ ...condition(1, 'eq', 'x'), index: -1 }))
+    ).toBe(true);
+  });
+
+  it('finds moved columns by name', () => {
+    const moved = ['City', 'Name', 'Amount'];
+    const r: FormattedRow = { 0: 'Berlin', 1: 'Anna' };
+    expect(matchRow(r, moved, where(condition(0, 'eq', 'Anna')))).toBe(true);
+  });
+
+  it('fails on missing columns', () => {
+    expect(() =>
+      matchRow(anna, ['Other'], where(condition(1, 'eq', 'Berlin')))
+    ).toThrow('Column "City" is missing');
+  });
+});
+
+describe('filterRows', () => {
+  const rows = [
+    row('Anna', 'Berlin', '5'),
+    row('Ben', 'Paris', '20'),
+    row('Cleo', 'Berlin', '30'),
+  ];
+
+  it('keeps matching rows in order', () => {
+    expect(
+      filterRows(rows, labels, where(condition(1, 'eq', 'Berlin')))
+    ).toEqual([rows[0], rows[2]]);
+    expect(
+      filterRows(
+        rows,
+        labels,
+        where(condition(1, 'eq', 'Berlin'), condition(2, 'gt', '10'))
+      )
+    ).toEqual([rows[2]]);
+  });
+
+  it('returns the same rows without a filter', () => {
+    expect(filterRows(rows, labels)).toBe(rows);
+    expect(filterRows(rows, labels, where())).toBe(rows);
+  });
+});
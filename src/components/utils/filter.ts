@@ -0,0 +1,129 @@
+import { bindIndex, FieldBinding } from './binding';
+import { FormattedRow } from './format';
+
+export type FilterOperator =
+  | 'eq'
+  | 'ne'
+  | 'contains'
+  | 'notContains'
+  | 'startsWith'
+  | 'endsWith'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'empty'
+  | 'notEmpty';
+
+export interface FilterCondition extends FieldBinding {
+  operator: FilterOperator;
+  value: string;
+}
+
+export interface RowFilter {
+  join: 'and' | 'or';
+  conditions: FilterCondition[];
+}
+
+export const filterOperators: {
+  value: FilterOperator;
+  label: string;
+  unary?: boolean;
+}[] = [
+  { value: 'eq', label: '=' },
+  { value: 'ne', label: '!=' },
+  { value: 'contains', label: 'contains' },
+  { value: 'notContains', label: 'does not contain' },
+  { value: 'startsWith', label: 'starts with' },
+  { value: 'endsWith', label: 'ends with' },
+  { value: 'gt', label: '>' },
+  { value: 'gte', label: '>=' },
+  { value: 'lt', label: '<' },
+  { value: 'lte', label: '<=' },
+  { value: 'empty', label: 'is empty', unary: true },
+  { value: 'notEmpty', label: 'is not empty', unary: true },
+];
+
+const toNumber = (s: string) => (s.trim() === '' ? NaN : Number(s));
+
+// Numbers compare as numbers, everything else as case-insensitive text
+const compare = (a: string, b: string) => {
+  const x = toNumber(a);
+  const y = toNumber(b);
+  if (!Number.isNaN(x) && !Number.isNaN(y)) {
+    return x - y;
+  }
+  return a.localeCompare(b, undefined, { sensitivity: 'base' });
+};
+
+const matchCondition = (cell: unknown, raw: unknown, cond: FilterCondition) => {
+  const text = cell === undefined || cell === null ? '' : `${cell}`.trim();
+  const value = (cond.value || '').trim();
+  const lower = text.toLowerCase();
+  const lowerValue = value.toLowerCase();
+
+  // Formatted numbers like 1,234.50 still compare by their real value
+  const numeric =
+    typeof raw === 'number' && !Number.isNaN(toNumber(value)) ? `${raw}` : text;
+  const equal = compare(text, value) === 0 || compare(numeric, value) === 0;
+
+  switch (cond.operator) {
+    case 'eq':
+      return equal;
+    case 'ne':
+      return !equal;
+    case 'contains':
+      return lower.includes(lowerValue);
+    case 'notContains':
+      return !lower.includes(lowerValue);
+    case 'startsWith':
+      return lower.startsWith(lowerValue);
+    case 'endsWith':
+      return lower.endsWith(lowerValue);
+    case 'gt':
+      return compare(numeric, value) > 0;
+    case 'gte':
+      return compare(numeric, value) >= 0;
+    case 'lt':
+      return compare(numeric, value) < 0;
+    case 'lte':
+      return compare(numeric, value) <= 0;
+    case 'empty':
+      return text === '';
+    case 'notEmpty':
+      return text !== '';
+    default:
+      return true;
+  }
+};
+
+// Rows match when there are no conditions
+export const matchRow = (
+  row: FormattedRow,
+  labels: string[],
+  filter?: RowFilter
+) => {
+  const conditions = (filter?.conditions || []).filter((c) => c.index !== -1);
+  if (!filter || !conditions.length) {
+    return true;
+  }
+
+  const matches = conditions.map((c) => {
+    const index = bindIndex(labels, c);
+    return matchCondition(row[index], row.raw?.[index], c);
+  });
+  return filter.join === 'or'
+    ? matches.some((m) => m)
+    : matches.every((m) => m);
+};
+
+export const filterRows = <T extends FormattedRow>(
+  rows: T[],
+  labels: string[],
+  filter?: RowFilter
+) => {
+  if (!filter?.conditions.some((c) => c.index !== -1)) {
+    return rows;
+  }
+  return rows.filter((row) => matchRow(row, labels, filter));
+};
@@ -0,0 +1,93 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs';
+import glob from 'glob';
+import { promisify } from 'util';
+
+export interface CustomFont {
+  name: string;
+  file: string;
+}
+
+export const fontExtensions = ['ttf', 'otf'];
+
+export const fontName = (fp: string) =>
+  path.basename(fp, path.extname(fp)).replace(/_+/g, ' ');
+
+const systemFontDirs = () => {
+  const home = os.homedir();
+  if (process.platform === 'win32') {
+    return [
+      path.join(process.env.WINDIR || 'C:\\Windows', 'Fonts'),
+      path.join(
+        process.env.LOCALAPPDATA || path.join(home, 'AppData', 'Local'),
+        'Microsoft',
+        'Windows',
+        'Fonts'
+      ),
+    ];
+  }
+  if (process.platform === 'darwin') {
+    return [
+      '/System/Library/Fonts',
+      '/Library/Fonts',
+      path.join(home, 'Library', 'Fonts'),
+    ];
+  }
+  return [
+    '/usr/share/fonts',
+    '/usr/local/share/fonts',
+    path.join(home, '.fonts'),
+    path.join(home, '.local', 'share', 'fonts'),
+  ];
+};
+
+export const listSystemFonts = async () => {
+  const lists = await Promise.all(
+    systemFontDirs().map((dir) =>
+      promisify(glob)(`**/*.{${fontExtensions.join(',')}}`, {
+        cwd: dir,
+        absolute: true,
+        nocase: true,
+      }).catch(() => [] as string[])
+    )
+  );
+
+  const fonts: Record<string, CustomFont> = {};
+  lists.flat().forEach((file) => {
+    const name = fontName(file);
+    if (!fonts[name]) {
+      fonts[name] = { name, file };
+    }
+  });
+  return Object.values(fonts).sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// The DOM typings of this TypeScript version predate the Font Loading API
+declare class FontFace {
+  constructor(family: string, source: ArrayBuffer | Uint8Array);
+
+  load(): Promise<FontFace>;
+}
+
+declare global {
+  interface Document {
+    fonts: { add: (face: FontFace) => void };
+  }
+}
+
+const loadedFaces: Record<string, Promise<void>> = {};
+
+// Registers the font with the page, so canvas text can preview it
+export const loadFontFace = (font: CustomFont) => {
+  if (!loadedFaces[font.file]) {
+    loadedFaces[font.file] = promisify(fs.readFile)(font.file)
+      .then((buff) => new FontFace(font.name, buff).load())
+      .then((face) => document.fonts.add(face))
+      .catch((e) => {
+        delete loadedFaces[font.file];
+        throw e;
+      });
+  }
+  return loadedFaces[font.file];
+};
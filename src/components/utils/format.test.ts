@@ -0,0 +1,113 @@
+/**
+ * @jest-environment ./.erb/scripts/TimezoneEnvironment.js
+ * @timezone America/New_York
+ */
+import { formatValue } from './format';
+
+const format = (value: unknown, pattern?: string) =>
+  formatValue([value], 0, { type: 'date', pattern });
+
+// Dates must not move a day west of UTC
+describe('formatValue dates', () => {
+  it('keeps the day of ISO dates', () => {
+    expect(format('2023-11-01', 'dd/mm/yyyy')).toBe('01/11/2023');
+    expect(format(' 2023-01-01 ', 'dd/mm/yyyy')).toBe('01/01/2023');
+  });
+
+  it('keeps the time of ISO dates', () => {
+    expect(format('2023-11-01 14:30', 'dd/mm/yyyy hh:mm')).toBe(
+      '01/11/2023 14:30'
+    );
+    expect(format('2023-11-01T23:59:30', 'yyyy-mm-dd hh:mm:ss')).toBe(
+      '2023-11-01 23:59:30'
+    );
+  });
+
+  it('formats Excel serial numbers', () => {
+    expect(format(45231, 'dd/mm/yyyy')).toBe('01/11/2023');
+  });
+
+  it('formats other dates in local time', () => {
+    expect(format('Nov 1, 2023', 'dd/mm/yyyy')).toBe('01/11/2023');
+    expect(format(new Date(2023, 10, 1, 8, 0), 'dd/mm/yyyy hh:mm')).toBe(
+      '01/11/2023 08:00'
+    );
+  });
+
+  it('uses the long date of the locale without a pattern', () => {
+    expect(
+      formatValue(['2023-11-01'], 0, { type: 'date', locale: 'en-US' })
+    ).toBe('November 1, 2023');
+  });
+
+  it('formats the raw value and falls back to the text', () => {
+    expect(
+      formatValue({ 0: '11/1/23', raw: [45231] }, 0, {
+        type: 'date',
+        pattern: 'yyyy-mm-dd',
+      })
+    ).toBe('2023-11-01');
+    expect(format('not a date', 'dd/mm/yyyy')).toBe('not a date');
+    expect(format('', 'dd/mm/yyyy')).toBe('');
+  });
+});
+
+describe('formatValue numbers', () => {
+  it('returns the text without a format', () => {
+    expect(formatValue(['1,234.50'], 0)).toBe('1,234.50');
+    expect(formatValue([undefined], 0)).toBe('');
+  });
+
+  it('reads decimal commas and spaces', () => {
+    const fmt = { type: 'number' as const, locale: 'en-US', decimals: 2 };
+    expect(formatValue(['1,5'], 0, fmt)).toBe('1.50');
+    expect(formatValue(['1 234'], 0, fmt)).toBe('1,234.00');
+  });
+
+  it('reads separators of the locale', () => {
+    const usd = { type: 'currency' as const, currency: 'USD', locale: 'en-US' };
+    expect(formatValue(['1,234'], 0, usd)).toBe('$1,234.00');
+    expect(formatValue(['-1,234,567.5'], 0, usd)).toBe('-$1,234,567.50');
+
+    const eur = { type: 'currency' as const, currency: 'EUR', locale: 'de-DE' };
+    expect(formatValue(['1.234,50'], 0, eur)).toBe('1.234,50\u00a0€');
+    expect(formatValue(['1.234'], 0, eur)).toBe('1.234,00\u00a0€');
+
+    const fr = { type: 'number' as const, locale: 'fr-FR', decimals: 1 };
+    expect(formatValue(['1 234,5'], 0, fr)).toBe('1\u202f234,5');
+  });
+
+  it('guesses separators without a locale', () => {
+    const fmt = { type: 'number' as const, pattern: '#,##0.00' };
+    expect(formatValue(['1.234,50'], 0, fmt)).toBe('1,234.50');
+    expect(formatValue(['1,234.50'], 0, fmt)).toBe('1,234.50');
+    expect(formatValue(['1,234,567'], 0, fmt)).toBe('1,234,567.00');
+    expect(formatValue(['12,5'], 0, fmt)).toBe('12.50');
+    // Could be 1234 or 1.234
+    expect(formatValue(['1,234'], 0, fmt)).toBe('1,234');
+    expect(formatValue(['1,23,4'], 0, fmt)).toBe('1,23,4');
+  });
+
+  it('applies Excel patterns', () => {
+    expect(
+      formatValue([1234.5], 0, { type: 'number', pattern: '#,##0.00' })
+    ).toBe('1,234.50');
+  });
+
+  it('formats currencies', () => {
+    expect(
+      formatValue([1234.5], 0, {
+        type: 'currency',
+        currency: 'USD',
+        locale: 'en-US',
+      })
+    ).toBe('$1,234.50');
+  });
+
+  it('keeps the text of values that are not numbers', () => {
+    expect(formatValue(['n/a'], 0, { type: 'number' })).toBe('n/a');
+    expect(
+      formatValue([12], 0, { type: 'currency', currency: 'not a code' })
+    ).toBe('12');
+  });
+});
@@ -0,0 +1,175 @@
+import XLSX from 'xlsx';
+
+export type FormatType = 'date' | 'number' | 'currency';
+
+// Patterns are Excel number format codes, e.g. dd/mm/yyyy or #,##0.00
+export interface FieldFormat {
+  type: FormatType;
+  pattern?: string;
+  currency?: string;
+  locale?: string;
+  decimals?: number;
+}
+
+export interface FormattedRow {
+  [index: number]: unknown;
+  raw?: unknown[];
+}
+
+export const formatTypes: { value: FormatType; label: string }[] = [
+  { value: 'date', label: 'Date' },
+  { value: 'number', label: 'Number' },
+  { value: 'currency', label: 'Currency' },
+];
+
+const msPerDay = 86_400_000;
+// Days between the Excel epoch (1899-12-30) and the Unix epoch
+const epochOffset = 25_569;
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// NaN unless groups of three digits are separated by `group`, spaces are
+// already left out
+const parseSeparated = (s: string, group: string, decimal: string) => {
+  const g = escapeRegExp(group);
+  const d = escapeRegExp(decimal);
+  if (!new RegExp(`^-?(\\d{1,3}(${g}\\d{3})+|\\d+)(${d}\\d+)?$`).test(s)) {
+    return NaN;
+  }
+  return Number((group ? s.split(group).join('') : s).replace(decimal, '.'));
+};
+
+const localeSeparators = (locale: string) => {
+  const parts = new Intl.NumberFormat(locale).formatToParts(1234.5);
+  const group = parts.find((p) => p.type === 'group')?.value || '';
+  return {
+    // French and others group with spaces
+    group: /\s/.test(group) ? '' : group,
+    decimal: parts.find((p) => p.type === 'decimal')?.value || '.',
+  };
+};
+
+const toNumber = (raw: unknown, locale?: string) => {
+  if (typeof raw === 'number') {
+    return raw;
+  }
+  const s = `${raw ?? ''}`.replace(/\s/g, '');
+  if (!s) {
+    return null;
+  }
+  if (locale) {
+    const { group, decimal } = localeSeparators(locale);
+    const n = parseSeparated(s, group, decimal);
+    if (!Number.isNaN(n)) {
+      return n;
+    }
+  }
+  let n = Number(s);
+  if (Number.isNaN(n)) {
+    // The last of "," and "." separates the decimals. A single comma before
+    // three digits, as in 1,234, could be either and the text is kept.
+    const comma = s.lastIndexOf(',');
+    const dot = s.lastIndexOf('.');
+    if (dot !== -1 && comma > dot) {
+      n = parseSeparated(s, '.', ',');
+    } else if (comma !== -1 && dot > comma) {
+      n = parseSeparated(s, ',', '.');
+    } else if (s.indexOf(',') !== comma) {
+      n = parseSeparated(s, ',', '.');
+    } else if (!/,\d{3}$/.test(s)) {
+      n = parseSeparated(s, '', ',');
+    }
+  }
+  return Number.isNaN(n) ? null : n;
+};
+
+// yyyy-mm-dd with an optional time, Date reads it as UTC without a time and
+// as local time with one
+const isoDate = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?$/;
+
+const toSerial = (raw: unknown) => {
+  if (typeof raw === 'number') {
+    return raw;
+  }
+  const iso = isoDate.exec(`${raw ?? ''}`.trim());
+  if (iso) {
+    const [year, month, day, hours, minutes, seconds] = iso
+      .slice(1)
+      .map((n) => (n ? parseInt(n, 10) : 0));
+    const utc = Date.UTC(year, month - 1, day, hours, minutes, seconds);
+    return utc / msPerDay + epochOffset;
+  }
+  const d = raw instanceof Date ? raw : new Date(`${raw ?? ''}`);
+  if (!`${raw ?? ''}` || Number.isNaN(d.getTime())) {
+    return null;
+  }
+  // Other dates are in local time
+  const utc = Date.UTC(
+    d.getFullYear(),
+    d.getMonth(),
+    d.getDate(),
+    d.getHours(),
+    d.getMinutes(),
+    d.getSeconds()
+  );
+  return utc / msPerDay + epochOffset;
+};
+
+const formatNumber = (n: number, format: FieldFormat) => {
+  const fractions =
+    format.decimals === undefined
+      ? {}
+      : {
+          minimumFractionDigits: format.decimals,
+          maximumFractionDigits: format.decimals,
+        };
+  if (format.type === 'currency') {
+    return new Intl.NumberFormat(format.locale || undefined, {
+      style: 'currency',
+      currency: format.currency || 'USD',
+      ...fractions,
+    }).format(n);
+  }
+  if (format.pattern) {
+    return XLSX.SSF.format(format.pattern, n);
+  }
+  return new Intl.NumberFormat(format.locale || undefined, fractions).format(n);
+};
+
+const formatDate = (serial: number, format: FieldFormat) => {
+  if (format.pattern) {
+    return XLSX.SSF.format(format.pattern, serial);
+  }
+  return new Intl.DateTimeFormat(format.locale || undefined, {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    timeZone: 'UTC',
+  }).format(new Date(Math.round((serial - epochOffset) * msPerDay)));
+};
+
+// Without a format, fields print the text as formatted in the spreadsheet
+export const formatValue = (
+  row: FormattedRow,
+  index: number,
+  format?: FieldFormat
+) => {
+  const value = row[index];
+  const text = value === undefined || value === null ? '' : `${value}`;
+  if (!format) {
+    return text;
+  }
+
+  const raw = row.raw ? row.raw[index] : value;
+  try {
+    if (format.type === 'date') {
+      const serial = toSerial(raw);
+      return serial === null ? text : formatDate(serial, format);
+    }
+    const n = toNumber(raw, format.locale);
+    return n === null ? text : formatNumber(n, format);
+  } catch (e) {
+    // Invalid pattern, locale or currency code
+    return text;
+  }
+};
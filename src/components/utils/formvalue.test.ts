@@ -0,0 +1,63 @@
+import { isChecked, mapValue, matchOptions } from './formvalue';
+
+describe('isChecked', () => {
+  it('reads checked and unchecked values', () => {
+    expect(isChecked(' Yes ')).toBe(true);
+    expect(isChecked('X')).toBe(true);
+    expect(isChecked('✓')).toBe(true);
+    expect(isChecked('No')).toBe(false);
+    expect(isChecked('')).toBe(false);
+    expect(isChecked('0')).toBe(false);
+  });
+
+  it('is undefined for other values', () => {
+    expect(isChecked('maybe')).toBeUndefined();
+  });
+});
+
+describe('mapValue', () => {
+  const mappings = [
+    { from: 'M, m', to: 'Male' },
+    { from: 'F,W', to: 'Female' },
+  ];
+
+  it('maps any of the comma separated values', () => {
+    expect(mapValue('m', mappings)).toBe('Male');
+    expect(mapValue(' w ', mappings)).toBe('Female');
+  });
+
+  it('keeps values without a mapping', () => {
+    expect(mapValue('X', mappings)).toBe('X');
+    expect(mapValue('M')).toBe('M');
+  });
+});
+
+describe('matchOptions', () => {
+  const options = ['Red', 'Green', 'Blue', 'Black, white'];
+
+  it('splits values on semicolons and new lines first', () => {
+    expect(matchOptions('red; Blue\ngreen', options)).toEqual({
+      matched: ['Red', 'Blue', 'Green'],
+      unmatched: [],
+    });
+    expect(matchOptions('Red; Black, white', options).matched).toEqual([
+      'Red',
+      'Black, white',
+    ]);
+  });
+
+  it('splits on commas unless the whole value is an option', () => {
+    expect(matchOptions('Red, Blue', options).matched).toEqual(['Red', 'Blue']);
+    expect(matchOptions('black, WHITE', options).matched).toEqual([
+      'Black, white',
+    ]);
+  });
+
+  it('maps the values and reports the ones without an option', () => {
+    const mappings = [{ from: 'R', to: 'Red' }];
+    expect(matchOptions('R, Pink, ', options, mappings)).toEqual({
+      matched: ['Red'],
+      unmatched: ['Pink'],
+    });
+  });
+});
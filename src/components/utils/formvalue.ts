@@ -0,0 +1,70 @@
+// What happens to the template form fields in the output
+export type FormMode = 'flatten' | 'fillable' | 'readonly';
+
+export const formModes: { value: FormMode; label: string }[] = [
+  { value: 'flatten', label: 'Flatten' },
+  { value: 'fillable', label: 'Keep fillable' },
+  { value: 'readonly', label: 'Read-only' },
+];
+
+// Cells matching one of the comma separated `from` values are filled in as
+// `to`, e.g. "M, m" to "Male"
+export interface ValueMapping {
+  from: string;
+  to: string;
+}
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+export const mapValue = (value: string, mappings?: ValueMapping[]) => {
+  const key = normalize(value);
+  const mapping = (mappings || []).find((m) =>
+    m.from.split(',').some((from) => normalize(from) === key)
+  );
+  return mapping ? mapping.to : value;
+};
+
+const checkedValues = ['true', 'yes', 'y', '1', 'x', 'on', 'checked', '✓', '✔'];
+const uncheckedValues = ['', 'false', 'no', 'n', '0', 'off', 'unchecked'];
+
+// Undefined for values that are neither
+export const isChecked = (value: string) => {
+  const key = normalize(value);
+  if (checkedValues.includes(key)) {
+    return true;
+  }
+  return uncheckedValues.includes(key) ? false : undefined;
+};
+
+// The option as spelled in the form, case and surrounding spaces don't matter
+export const matchOption = (value: string, options: string[]) =>
+  options.find((o) => o === value) ||
+  options.find((o) => normalize(o) === normalize(value));
+
+// Option lists take several values separated by semicolons, new lines or
+// commas, unless the whole value is an option
+export const matchOptions = (
+  value: string,
+  options: string[],
+  mappings?: ValueMapping[]
+) => {
+  const whole = matchOption(mapValue(value, mappings), options);
+  let parts = whole ? [value] : value.split(/\s*[;\n]\s*/);
+  if (!whole && parts.length === 1) {
+    parts = value.split(/\s*,\s*/);
+  }
+
+  const matched: string[] = [];
+  const unmatched: string[] = [];
+  parts
+    .filter((p) => p.trim())
+    .forEach((p) => {
+      const option = matchOption(mapValue(p, mappings), options);
+      if (option) {
+        matched.push(option);
+      } else {
+        unmatched.push(p);
+      }
+    });
+  return { matched, unmatched };
+};
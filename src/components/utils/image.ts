@@ -0,0 +1,74 @@
+import fs from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+
+export type ImageFit = 'contain' | 'cover' | 'stretch';
+
+export type MissingImage = 'skip' | 'placeholder' | 'fail';
+
+export interface ImageOptions {
+  fit?: ImageFit;
+  // What to do when the file can't be found or read
+  missing?: MissingImage;
+}
+
+export const imageFits: { value: ImageFit; label: string }[] = [
+  { value: 'contain', label: 'Contain' },
+  { value: 'cover', label: 'Cover' },
+  { value: 'stretch', label: 'Stretch' },
+];
+
+export const missingImages: { value: MissingImage; label: string }[] = [
+  { value: 'skip', label: 'Skip the image' },
+  { value: 'placeholder', label: 'Draw a placeholder' },
+  { value: 'fail', label: 'Skip the record' },
+];
+
+// Fits an image of iw x ih into a box, the result may overflow it for cover
+export const fitImage = (
+  iw: number,
+  ih: number,
+  bw: number,
+  bh: number,
+  fit: ImageFit = 'contain'
+) => {
+  if (fit === 'stretch') {
+    return { x: 0, y: 0, width: bw, height: bh };
+  }
+  const scale =
+    fit === 'cover' ? Math.max(bw / iw, bh / ih) : Math.min(bw / iw, bh / ih);
+  const width = iw * scale;
+  const height = ih * scale;
+  return { x: (bw - width) / 2, y: (bh - height) / 2, width, height };
+};
+
+export const assetExtensions = ['png', 'jpg', 'jpeg', 'svg'];
+
+// PDFs can only embed bitmaps, so SVGs are rasterized large enough for print
+const rasterizeSvg = (src: string, width = 2000) =>
+  new Promise<string>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const scale = width / (img.naturalWidth || width);
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round((img.naturalWidth || width) * scale);
+      canvas.height = Math.round((img.naturalHeight || width) * scale);
+      canvas
+        .getContext('2d')
+        ?.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/png'));
+    };
+    img.onerror = () => reject(new Error('Invalid SVG file'));
+    img.src = src;
+  });
+
+// Static assets are kept in the config as data URIs, so layouts travel with it
+export const readImageAsset = async (fp: string) => {
+  const ext = path.extname(fp).slice(1).toLowerCase();
+  const buff = await promisify(fs.readFile)(fp);
+  if (ext === 'svg') {
+    return rasterizeSvg(`data:image/svg+xml;base64,${buff.toString('base64')}`);
+  }
+  const mime = ext === 'png' ? 'image/png' : 'image/jpeg';
+  return `data:${mime};base64,${buff.toString('base64')}`;
+};
@@ -0,0 +1,75 @@
+import { PDFFont } from 'pdf-lib';
+import { fitText } from './overflow';
+import { LaidLine, RunFont } from './richtext';
+
+// Every character is half the font size wide
+const mono: RunFont = {
+  font: ({
+    widthOfTextAtSize: (text: string, size: number) => (text.length * size) / 2,
+  } as unknown) as PDFFont,
+};
+
+const fitIn = (
+  text: string,
+  width: number,
+  lines: number,
+  overflow?: Parameters<typeof fitText>[5]
+) => fitText([{ text }], () => mono, 10, width, lines, overflow);
+
+const texts = (lines: LaidLine[]) =>
+  lines.map((l) => l.segments.map((s) => s.text).join(''));
+
+describe('fitText', () => {
+  it('keeps text that fits', () => {
+    const fitted = fitIn('aaaa bbbb', 50, 1, { mode: 'shrink' });
+    expect(fitted).toMatchObject({ size: 10, overflows: false, fits: true });
+    expect(texts(fitted.lines)).toEqual(['aaaa bbbb']);
+  });
+
+  it('shrinks down to the smallest size', () => {
+    expect(fitIn('abcdefghij', 40, 1, { mode: 'shrink' })).toMatchObject({
+      size: 8,
+      overflows: true,
+      fits: true,
+    });
+    // 6pt by default
+    expect(
+      fitIn('abcdefghijklmnopqrst', 50, 1, { mode: 'shrink' })
+    ).toMatchObject({ size: 6, fits: false });
+    expect(
+      fitIn('abcdefghijklmnopqrst', 50, 1, { mode: 'shrink', minSize: 4 })
+    ).toMatchObject({ size: 5, fits: true });
+  });
+
+  it('gets more lines when shrinking', () => {
+    const text = 'aaaa bbbb cccc dddd eeee ffff';
+    const fitted = fitIn(text, 50, 1, { mode: 'shrink', minSize: 4 });
+    expect(fitted.size).toBe(5);
+    expect(texts(fitted.lines)).toEqual(['aaaa bbbb cccc dddd', 'eeee ffff']);
+  });
+
+  it('ends the last line it holds with an ellipsis', () => {
+    const fitted = fitIn('aaaa bbbb cccc', 40, 2, { mode: 'ellipsis' });
+    expect(fitted).toMatchObject({ size: 10, overflows: true, fits: true });
+    expect(texts(fitted.lines)).toEqual(['aaaa', 'bbbb…']);
+    expect(
+      texts(fitIn('abcdefghij', 30, 1, { mode: 'ellipsis' }).lines)
+    ).toEqual(['abcde…']);
+  });
+
+  it('grows below the box', () => {
+    const fitted = fitIn('aaaa bbbb cccc', 50, 1, { mode: 'grow' });
+    expect(fitted).toMatchObject({ size: 10, overflows: true, fits: true });
+    expect(texts(fitted.lines)).toEqual(['aaaa bbbb', 'cccc']);
+    expect(fitIn('abcdefghijkl', 50, 1, { mode: 'grow' }).fits).toBe(false);
+  });
+
+  it('does not fit text that overflows otherwise', () => {
+    expect(fitIn('aaaa bbbb cccc', 50, 1)).toMatchObject({
+      size: 10,
+      overflows: true,
+      fits: false,
+    });
+    expect(fitIn('aaaa bbbb cccc', 50, 1, { mode: 'fail' }).fits).toBe(false);
+  });
+});
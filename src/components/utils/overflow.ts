@@ -0,0 +1,102 @@
+import {
+  fontSizeMult,
+  LaidLine,
+  layoutRuns,
+  RunFont,
+  TextRun,
+  TextStyle,
+  truncateLine,
+} from './richtext';
+
+export type OverflowMode = 'shrink' | 'ellipsis' | 'grow' | 'fail';
+
+export interface FieldOverflow {
+  mode?: OverflowMode;
+  // Smallest font size shrinking goes down to, in points
+  minSize?: number;
+  // Lines the box holds, defaults to the lines it shows in the editor
+  maxLines?: number;
+}
+
+export const overflowModes: { value: OverflowMode; label: string }[] = [
+  { value: 'shrink', label: 'Shrink to fit' },
+  { value: 'ellipsis', label: 'Truncate with an ellipsis' },
+  { value: 'grow', label: 'Wrap and grow downward' },
+  { value: 'fail', label: 'Skip the record' },
+];
+
+// Lines of a fabric textbox, the inverse of fabric's text height.
+// lineHeight is fabric's factor of the font size.
+export const boxLines = (height: number, fontSize: number, lineHeight = 1.16) =>
+  Math.max(
+    1,
+    Math.round((height / (fontSize * fontSizeMult) - 1) / lineHeight + 1)
+  );
+
+// Lays the runs out in a box `width` wide holding `lines` lines at `size`.
+// `overflows` tells whether it fit as designed, `fits` whether it does once
+// the mode is applied.
+export const fitText = (
+  runs: TextRun[],
+  fontFor: (style: TextStyle) => RunFont,
+  size: number,
+  width: number,
+  lines: number,
+  overflow: FieldOverflow = {},
+  charSpacing = 0
+) => {
+  const layout = (fontSize: number) => {
+    const laid = layoutRuns(runs, fontFor, fontSize, width, charSpacing);
+    // Smaller text gets more lines in the same height
+    const capacity = Math.max(1, Math.floor((lines * size) / fontSize + 1e-6));
+    const fits =
+      laid.length <= capacity && laid.every((l) => l.width <= width + 0.01);
+    return { lines: laid, capacity, fits };
+  };
+
+  const designed = layout(size);
+  const overflows = !designed.fits;
+  if (!overflows) {
+    return { lines: designed.lines, size, overflows, fits: true };
+  }
+
+  switch (overflow.mode) {
+    case 'shrink': {
+      const minSize = Math.min(size, overflow.minSize || 6);
+      let fontSize = size;
+      let current = designed;
+      while (!current.fits && fontSize > minSize) {
+        fontSize = Math.max(minSize, fontSize - 0.5);
+        current = layout(fontSize);
+      }
+      return {
+        lines: current.lines,
+        size: fontSize,
+        overflows,
+        fits: current.fits,
+      };
+    }
+    case 'ellipsis': {
+      const kept = designed.lines.slice(0, designed.capacity);
+      const truncated = kept.map((l: LaidLine, i) => {
+        const last =
+          i === kept.length - 1 && kept.length < designed.lines.length;
+        if (!last && l.width <= width + 0.01) {
+          return l;
+        }
+        return truncateLine(l, size, width, charSpacing);
+      });
+      return { lines: truncated, size, overflows, fits: true };
+    }
+    case 'grow':
+      // Extra lines go below the box, only words too long for a line remain
+      return {
+        lines: designed.lines,
+        size,
+        overflows,
+        fits: designed.lines.every((l) => l.width <= width + 0.01),
+      };
+    default:
+      return { lines: designed.lines, size, overflows, fits: false };
+  }
+};
@@ -0,0 +1,75 @@
+import { findIndex, FormMapping } from './binding';
+import { formatValue, FormattedRow } from './format';
+import { escapeMarkup, markupStyles, stripMarkup } from './richtext';
+import { expandTemplate } from './template';
+import { isVisible, VisibilityRule } from './visibility';
+
+// Canvas object data as saved by the editor
+interface PreviewData extends FormMapping {
+  renderType?: string;
+  visibility?: VisibilityRule;
+}
+
+export interface ObjectPreview {
+  visible: boolean;
+  // Left as is for images, shapes and tables
+  text?: string;
+  styles?: ReturnType<typeof markupStyles>;
+}
+
+// Markup text with values escaped, columns that no longer exist are empty
+const bindingText = (
+  binding: FormMapping,
+  row: FormattedRow,
+  labels: string[]
+) => {
+  if (binding.template) {
+    return expandTemplate(row, labels, binding.template, escapeMarkup);
+  }
+  const index = binding.index === -1 ? -1 : findIndex(labels, binding);
+  return index === -1
+    ? ''
+    : escapeMarkup(formatValue(row, index, binding.format));
+};
+
+// Form fields show plain text
+export const previewValue = (
+  binding: FormMapping,
+  row: FormattedRow,
+  labels: string[]
+) => stripMarkup(bindingText(binding, row, labels));
+
+export const previewObject = (
+  data: PreviewData | undefined,
+  row: FormattedRow,
+  labels: string[]
+): ObjectPreview | undefined => {
+  if (!data) {
+    return undefined;
+  }
+
+  let visible = true;
+  try {
+    visible = isVisible(row, labels, data.visibility);
+  } catch (e) {
+    // Rules on missing columns are reported when merging
+  }
+
+  if (
+    data.index === undefined ||
+    ['image', 'table', 'shape', 'static'].includes(data.renderType || '')
+  ) {
+    return { visible };
+  }
+  // Indexes restored from older layouts may be strings
+  const text = bindingText(
+    { ...data, index: parseInt(`${data.index}`, 10) },
+    row,
+    labels
+  );
+  return {
+    visible,
+    text: stripMarkup(text),
+    styles: data.renderType === 'template' ? markupStyles(text) : {},
+  };
+};
@@ -0,0 +1,273 @@
+import { PDFFont, StandardFonts } from 'pdf-lib';
+
+export type VerticalAlign = 'top' | 'middle' | 'bottom';
+
+export interface TextStyle {
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+}
+
+export interface TextRun extends TextStyle {
+  text: string;
+}
+
+// Bold and italic are faked for fonts without those variants
+export interface RunFont {
+  font: PDFFont;
+  fakeBold?: boolean;
+  fakeItalic?: boolean;
+}
+
+export interface LaidSegment extends TextStyle {
+  text: string;
+  // From the start of the line
+  x: number;
+  width: number;
+  font: RunFont;
+}
+
+export interface LaidLine {
+  segments: LaidSegment[];
+  width: number;
+}
+
+export const verticalAligns: { value: VerticalAlign; label: string }[] = [
+  { value: 'top', label: 'Top' },
+  { value: 'middle', label: 'Middle' },
+  { value: 'bottom', label: 'Bottom' },
+];
+
+// <b>, <i> and <u> in template text, they may be nested
+const tagPattern = /<(\/?)([biu])>/gi;
+
+// Column values are escaped so their content is never taken for markup
+const escapedLt = '\uE000';
+
+export const escapeMarkup = (value: string) => value.replace(/</g, escapedLt);
+
+export const stripMarkup = (text: string) =>
+  text.replace(tagPattern, '').replace(new RegExp(escapedLt, 'g'), '<');
+
+export const parseMarkup = (text: string) => {
+  const runs: TextRun[] = [];
+  const depth: Record<string, number> = { b: 0, i: 0, u: 0 };
+  let last = 0;
+  const push = (end: number) => {
+    const part = text.slice(last, end).replace(new RegExp(escapedLt, 'g'), '<');
+    if (part) {
+      runs.push({
+        text: part,
+        bold: depth.b > 0,
+        italic: depth.i > 0,
+        underline: depth.u > 0,
+      });
+    }
+  };
+
+  text.replace(tagPattern, (match, close: string, tag: string, offset) => {
+    push(offset);
+    const key = tag.toLowerCase();
+    depth[key] = Math.max(0, depth[key] + (close ? -1 : 1));
+    last = offset + match.length;
+    return match;
+  });
+  push(text.length);
+  return runs;
+};
+
+// Fabric character styles showing the markup on the canvas, keyed by line and
+// character of the text without tags
+export const markupStyles = (text: string) => {
+  const styles: Record<number, Record<number, Record<string, unknown>>> = {};
+  let line = 0;
+  let char = 0;
+  parseMarkup(text).forEach((run) => {
+    Array.from(run.text).forEach((c) => {
+      if (c === '\n') {
+        line += 1;
+        char = 0;
+        return;
+      }
+      if (run.bold || run.italic || run.underline) {
+        styles[line] = styles[line] || {};
+        styles[line][char] = {
+          ...(run.bold ? { fontWeight: 'bold' } : {}),
+          ...(run.italic ? { fontStyle: 'italic' } : {}),
+          ...(run.underline ? { underline: true } : {}),
+        };
+      }
+      char += 1;
+    });
+  });
+  return styles;
+};
+
+const standardFamilies = [
+  [
+    StandardFonts.Helvetica,
+    StandardFonts.HelveticaBold,
+    StandardFonts.HelveticaOblique,
+    StandardFonts.HelveticaBoldOblique,
+  ],
+  [
+    StandardFonts.TimesRoman,
+    StandardFonts.TimesRomanBold,
+    StandardFonts.TimesRomanItalic,
+    StandardFonts.TimesRomanBoldItalic,
+  ],
+  [
+    StandardFonts.Courier,
+    StandardFonts.CourierBold,
+    StandardFonts.CourierOblique,
+    StandardFonts.CourierBoldOblique,
+  ],
+];
+
+// The standard font for a style, undefined when there's no such variant
+export const styledFontName = (font: string, style: TextStyle) => {
+  const family = standardFamilies.find((f) =>
+    f.includes(font as StandardFonts)
+  );
+  if (!family) {
+    return undefined;
+  }
+  const index = family.indexOf(font as StandardFonts);
+  const bold = index % 2 === 1 || !!style.bold;
+  const italic = index >= 2 || !!style.italic;
+  return family[(bold ? 1 : 0) + (italic ? 2 : 0)];
+};
+
+// Same ratios as fabric, so lines sit where the canvas shows them
+export const fontSizeMult = 1.13;
+const fontSizeFraction = 0.222;
+
+// From the top of a line to its baseline
+export const baselineOffset = (size: number) =>
+  size * fontSizeMult * (1 - fontSizeFraction);
+
+export const lineStep = (size: number, lineHeight = 1.16) =>
+  size * fontSizeMult * lineHeight;
+
+export const textHeight = (lines: number, size: number, lineHeight = 1.16) =>
+  lines ? size * fontSizeMult * (lineHeight * (lines - 1) + 1) : 0;
+
+// Width with fabric's letter spacing, in thousandths of an em after each
+// character
+export const measureText = (
+  text: string,
+  font: RunFont,
+  size: number,
+  charSpacing = 0
+) =>
+  font.font.widthOfTextAtSize(text, size) +
+  (Array.from(text).length * charSpacing * size) / 1000;
+
+// Word wraps the runs into lines no wider than width, words longer than a
+// line are kept whole like fabric does
+export const layoutRuns = (
+  runs: TextRun[],
+  fontFor: (style: TextStyle) => RunFont,
+  size: number,
+  width: number,
+  charSpacing = 0
+) => {
+  const lines: LaidLine[] = [];
+  let current: LaidLine = { segments: [], width: 0 };
+  let pending: TextRun[] = [];
+  let wrapped = false;
+
+  const append = (run: TextRun) => {
+    const font = fontFor(run);
+    const w = measureText(run.text, font, size, charSpacing);
+    const last = current.segments[current.segments.length - 1];
+    if (
+      last &&
+      last.font === font &&
+      !!last.underline === !!run.underline &&
+      !!last.bold === !!run.bold &&
+      !!last.italic === !!run.italic
+    ) {
+      last.text += run.text;
+      last.width += w;
+    } else {
+      current.segments.push({ ...run, x: current.width, width: w, font });
+    }
+    current.width += w;
+  };
+
+  const breakLine = (wrap: boolean) => {
+    lines.push(current);
+    current = { segments: [], width: 0 };
+    pending = [];
+    wrapped = wrap;
+  };
+
+  runs.forEach((run) => {
+    run.text.split(/(\n|\s+)/).forEach((token) => {
+      if (!token) {
+        return;
+      }
+      const part = { ...run, text: token };
+      if (token === '\n') {
+        breakLine(false);
+      } else if (/^\s+$/.test(token)) {
+        pending.push(part);
+      } else {
+        const spaces = pending.reduce(
+          (w, p) => w + measureText(p.text, fontFor(p), size, charSpacing),
+          0
+        );
+        const w = measureText(token, fontFor(part), size, charSpacing);
+        if (current.segments.length && current.width + spaces + w > width) {
+          breakLine(true);
+        }
+        // Leading spaces of a wrapped line are dropped
+        if (current.segments.length || !wrapped) {
+          pending.forEach(append);
+        }
+        pending = [];
+        append(part);
+      }
+    });
+  });
+
+  if (current.segments.length || lines.length) {
+    lines.push(current);
+  }
+  return lines;
+};
+
+// Cuts the line from the end until it fits with an ellipsis appended
+export const truncateLine = (
+  line: LaidLine,
+  size: number,
+  width: number,
+  charSpacing = 0
+) => {
+  const ellipsis = '…';
+  const segments = line.segments.map((s) => ({ ...s }));
+  const total = () => segments.reduce((w, s) => w + s.width, 0);
+  const last = () => segments[segments.length - 1];
+  const ellipsisWidth = () =>
+    last() ? measureText(ellipsis, last().font, size, charSpacing) : 0;
+
+  while (segments.length && total() + ellipsisWidth() > width) {
+    const s = last();
+    const chars = Array.from(s.text);
+    chars.pop();
+    s.text = chars.join('').trimEnd();
+    if (!s.text) {
+      segments.pop();
+    } else {
+      s.width = measureText(s.text, s.font, size, charSpacing);
+    }
+  }
+
+  const end = last();
+  if (end) {
+    end.text += ellipsis;
+    end.width = measureText(end.text, end.font, size, charSpacing);
+  }
+  return { segments, width: total() };
+};
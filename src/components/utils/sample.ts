@@ -0,0 +1,84 @@
+import { FormattedRow } from './format';
+
+export type SampleMode = 'first' | 'random' | 'longest';
+
+// A rendered record of the preview gallery
+export interface PreviewPage {
+  record: number;
+  file: string;
+}
+
+export interface PreviewResult {
+  pages: PreviewPage[];
+  issues: string[];
+}
+
+export const sampleModes: { value: SampleMode; label: string }[] = [
+  { value: 'first', label: 'First records' },
+  { value: 'random', label: 'Random records' },
+  { value: 'longest', label: 'Longest values per column' },
+];
+
+const valueLength = (group: FormattedRow[], column: number) =>
+  group.reduce((max, row) => {
+    const value = row[column];
+    const text = value === undefined || value === null ? '' : `${value}`;
+    return Math.max(max, text.length);
+  }, 0);
+
+// Takes the record with the longest value of every column in turn, then the
+// second longest, until there are enough
+const longestRecords = (groups: FormattedRow[][], count: number) => {
+  const columns = groups.reduce(
+    (n, group) =>
+      group.reduce(
+        (m, row) =>
+          Math.max(m, Object.keys(row).filter((k) => /^\d+$/.test(k)).length),
+        n
+      ),
+    0
+  );
+  const rankings = Array.from({ length: columns }, (_c, column) =>
+    groups
+      .map((group, index) => ({ index, length: valueLength(group, column) }))
+      .filter((r) => r.length > 0)
+      .sort((a, b) => b.length - a.length || a.index - b.index)
+      .map((r) => r.index)
+  );
+
+  const picked: number[] = [];
+  const depth = rankings.reduce((n, r) => Math.max(n, r.length), 0);
+  for (let rank = 0; rank < depth && picked.length < count; rank += 1) {
+    rankings.forEach((ranking) => {
+      const index = ranking[rank];
+      if (
+        index !== undefined &&
+        picked.length < count &&
+        !picked.includes(index)
+      ) {
+        picked.push(index);
+      }
+    });
+  }
+  return picked;
+};
+
+// Indexes of the records to preview, in data order
+export const sampleRecords = (
+  groups: FormattedRow[][],
+  count: number,
+  mode: SampleMode
+) => {
+  const indexes = groups.map((_g, i) => i);
+  if (mode === 'random') {
+    for (let i = indexes.length - 1; i > 0; i -= 1) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [indexes[i], indexes[j]] = [indexes[j], indexes[i]];
+    }
+    return indexes.slice(0, count).sort((a, b) => a - b);
+  }
+  if (mode === 'longest') {
+    return longestRecords(groups, count).sort((a, b) => a - b);
+  }
+  return indexes.slice(0, count);
+};
@@ -0,0 +1,110 @@
+import {
+  emptySelection,
+  hasSelection,
+  isSelected,
+  parseRanges,
+  RowSelection,
+  selectRows,
+  toggleRecord,
+} from './selection';
+
+const selection = (ranges: string, changes?: Partial<RowSelection>) => ({
+  ...emptySelection,
+  ranges,
+  ...changes,
+});
+
+describe('parseRanges', () => {
+  it('reads single records and ranges', () => {
+    expect(parseRanges('5-20, 31')).toEqual([
+      [5, 20],
+      [31, 31],
+    ]);
+    expect(parseRanges(' 3 - 4 ;7')).toEqual([
+      [3, 4],
+      [7, 7],
+    ]);
+  });
+
+  it('reads open and reversed ranges', () => {
+    expect(parseRanges('40-')).toEqual([[40, Infinity]]);
+    expect(parseRanges('9-2')).toEqual([[2, 9]]);
+  });
+
+  it('ignores empty parts', () => {
+    expect(parseRanges('')).toEqual([]);
+    expect(parseRanges(' , 1,, ')).toEqual([[1, 1]]);
+  });
+
+  it('rejects anything else', () => {
+    expect(() => parseRanges('1-2-3')).toThrow('Invalid record range "1-2-3"');
+    expect(() => parseRanges('a')).toThrow('Invalid record range "a"');
+    expect(() => parseRanges('-5')).toThrow('Invalid record range "-5"');
+  });
+});
+
+describe('isSelected', () => {
+  it('selects every record without ranges', () => {
+    expect(isSelected(1, emptySelection)).toBe(true);
+    expect(isSelected(1000, emptySelection)).toBe(true);
+  });
+
+  it('selects records in the ranges', () => {
+    const s = selection('5-20, 31');
+    expect(isSelected(4, s)).toBe(false);
+    expect(isSelected(5, s)).toBe(true);
+    expect(isSelected(20, s)).toBe(true);
+    expect(isSelected(31, s)).toBe(true);
+    expect(isSelected(32, s)).toBe(false);
+  });
+
+  it('applies picked records over the ranges', () => {
+    const s = selection('5-20', { included: [2], excluded: [7] });
+    expect(isSelected(2, s)).toBe(true);
+    expect(isSelected(7, s)).toBe(false);
+    expect(isSelected(8, s)).toBe(true);
+  });
+});
+
+describe('toggleRecord', () => {
+  it('excludes selected records and selects them again', () => {
+    const s = toggleRecord(selection('1-5'), 3);
+    expect(s.excluded).toEqual([3]);
+    expect(isSelected(3, s)).toBe(false);
+    const again = toggleRecord(s, 3);
+    expect(again.excluded).toEqual([]);
+    expect(again.included).toEqual([]);
+    expect(isSelected(3, again)).toBe(true);
+  });
+
+  it('includes records outside the ranges', () => {
+    const s = toggleRecord(selection('1-5'), 9);
+    expect(s.included).toEqual([9]);
+    expect(isSelected(9, s)).toBe(true);
+    expect(toggleRecord(s, 9)).toEqual(
+      selection('1-5', { included: [], excluded: [9] })
+    );
+  });
+});
+
+describe('selectRows', () => {
+  const rows = ['a', 'b', 'c', 'd', 'e'];
+
+  it('keeps the selected rows, numbered from 1', () => {
+    expect(selectRows(rows, selection('2-3, 5'))).toEqual(['b', 'c', 'e']);
+    expect(selectRows(rows, selection('4-', { excluded: [5] }))).toEqual(['d']);
+    expect(selectRows(rows, selection('', { excluded: [1] }))).toEqual([
+      'b',
+      'c',
+      'd',
+      'e',
+    ]);
+  });
+
+  it('returns the same rows without a selection', () => {
+    expect(selectRows(rows)).toBe(rows);
+    expect(selectRows(rows, selection('  '))).toBe(rows);
+    expect(hasSelection(selection(' '))).toBe(false);
+    expect(hasSelection(selection('', { included: [1] }))).toBe(true);
+  });
+});
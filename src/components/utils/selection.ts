@@ -0,0 +1,82 @@
+// Records are numbered from 1 in data order, before any filter is applied
+export interface RowSelection {
+  ranges: string;
+  included: number[];
+  excluded: number[];
+}
+
+export const emptySelection: RowSelection = {
+  ranges: '',
+  included: [],
+  excluded: [],
+};
+
+export const parseRanges = (ranges: string) =>
+  ranges
+    .split(/[,;]/)
+    .map((r) => r.trim())
+    .filter((r) => r)
+    .map((r) => {
+      const match = /^(\d+)\s*(?:-\s*(\d*))?$/.exec(r);
+      if (!match) {
+        throw new Error(`Invalid record range "${r}", use e.g. 5-20, 31`);
+      }
+      const from = parseInt(match[1], 10);
+      let to = from;
+      if (match[2] !== undefined) {
+        // Open ranges like "40-" run to the last record
+        to = match[2] ? parseInt(match[2], 10) : Infinity;
+      }
+      return [Math.min(from, to), Math.max(from, to)];
+    });
+
+export const hasSelection = (selection?: RowSelection) =>
+  !!selection &&
+  !!(
+    selection.ranges.trim() ||
+    selection.included.length ||
+    selection.excluded.length
+  );
+
+export const isSelected = (
+  record: number,
+  selection: RowSelection,
+  ranges = parseRanges(selection.ranges)
+) => {
+  if (selection.excluded.includes(record)) {
+    return false;
+  }
+  if (!ranges.length || selection.included.includes(record)) {
+    return true;
+  }
+  return ranges.some(([from, to]) => record >= from && record <= to);
+};
+
+export const toggleRecord = (
+  selection: RowSelection,
+  record: number,
+  ranges = parseRanges(selection.ranges)
+) => {
+  const inRanges =
+    !ranges.length ||
+    ranges.some(([from, to]) => record >= from && record <= to);
+  const included = selection.included.filter((r) => r !== record);
+  const excluded = selection.excluded.filter((r) => r !== record);
+
+  if (isSelected(record, selection, ranges)) {
+    return { ...selection, included, excluded: [...excluded, record] };
+  }
+  return {
+    ...selection,
+    included: inRanges ? included : [...included, record],
+    excluded,
+  };
+};
+
+export const selectRows = <T>(rows: T[], selection?: RowSelection) => {
+  if (!selection || !hasSelection(selection)) {
+    return rows;
+  }
+  const ranges = parseRanges(selection.ranges);
+  return rows.filter((_r, i) => isSelected(i + 1, selection, ranges));
+};
@@ -0,0 +1,46 @@
+export type ShapeType = 'rect' | 'ellipse' | 'line' | 'highlight' | 'whiteout';
+
+export interface ShapeStyle {
+  fill?: string;
+  stroke?: string;
+  strokeWidth?: number;
+}
+
+export const shapeTypes: { value: ShapeType; label: string }[] = [
+  { value: 'rect', label: 'Rectangle' },
+  { value: 'ellipse', label: 'Ellipse' },
+  { value: 'line', label: 'Line' },
+  { value: 'highlight', label: 'Highlight' },
+  { value: 'whiteout', label: 'White-out box' },
+];
+
+// Fabric colors are hex or rgb()/rgba() strings, empty means none
+export const parseColor = (color?: string | null) => {
+  if (!color || color === 'transparent') {
+    return undefined;
+  }
+
+  const hex = /^#([a-f\d]{3}|[a-f\d]{6})$/i.exec(color);
+  if (hex) {
+    const digits =
+      hex[1].length === 3
+        ? hex[1]
+            .split('')
+            .map((d) => d + d)
+            .join('')
+        : hex[1];
+    return {
+      r: parseInt(digits.slice(0, 2), 16) / 255,
+      g: parseInt(digits.slice(2, 4), 16) / 255,
+      b: parseInt(digits.slice(4, 6), 16) / 255,
+      alpha: 1,
+    };
+  }
+
+  const func = /^rgba?\(([^)]+)\)$/i.exec(color);
+  if (func) {
+    const [r, g, b, a] = func[1].split(',').map((v) => parseFloat(v));
+    return { r: r / 255, g: g / 255, b: b / 255, alpha: a ?? 1 };
+  }
+  return undefined;
+};
@@ -0,0 +1,42 @@
+import { expandTemplate } from './template';
+
+const labels = ['Name', 'Street', 'City', 'Zip'];
+const row = { 0: 'Anna', 1: '', 2: 'Berlin', 3: ' ' };
+
+const expand = (text: string, collapseBlank = true) =>
+  expandTemplate(row, labels, { text, collapseBlank });
+
+describe('expandTemplate', () => {
+  it('fills in columns by name', () => {
+    expect(expand('{Name} from { City }')).toBe('Anna from Berlin');
+  });
+
+  it('drops lines whose columns are all empty', () => {
+    expect(expand('{Name}\n{Street}\n{City}')).toBe('Anna\nBerlin');
+    expect(expand('{Name}\r\n{Street} {Zip}\r\n{City}')).toBe('Anna\nBerlin');
+  });
+
+  it('keeps empty lines without collapseBlank', () => {
+    expect(expand('{Name}\n{Street}\n{City}', false)).toBe('Anna\n\nBerlin');
+  });
+
+  it('drops separators left on an empty line', () => {
+    expect(expand('{Name}\n{Street}, {Zip}')).toBe('Anna');
+    expect(expand('{Name}\n({Street})')).toBe('Anna');
+  });
+
+  it('keeps lines with text or a filled column', () => {
+    expect(expand('{Name}\nStreet: {Street}')).toBe('Anna\nStreet: ');
+    expect(expand('{Street} {City}')).toBe(' Berlin');
+    expect(expand('Dear {Name},\n\nregards')).toBe('Dear Anna,\n\nregards');
+  });
+
+  it('escapes the values only', () => {
+    const quoted = { 0: '*Anna*' };
+    expect(
+      expandTemplate(quoted, labels, { text: '**{Name}**' }, (v) =>
+        v.replace(/\*/g, '\\*')
+      )
+    ).toBe('**\\*Anna\\***');
+  });
+});
@@ -0,0 +1,65 @@
+import { FormattedRow } from './format';
+import { stripMarkup } from './richtext';
+
+export interface FieldTemplate {
+  // Literal text with {Column} placeholders, may span several lines
+  text: string;
+  // Drop lines left empty because all their placeholders were empty
+  collapseBlank?: boolean;
+}
+
+const placeholder = /\{([^{}]+)\}/g;
+
+export const templateLabels = (text: string) => {
+  const labels: string[] = [];
+  text.replace(placeholder, (_m, name: string) => {
+    if (!labels.includes(name.trim())) {
+      labels.push(name.trim());
+    }
+    return '';
+  });
+  return labels;
+};
+
+export const bindTemplate = (labels: string[], template: FieldTemplate) => {
+  const missing = templateLabels(template.text).find(
+    (label) => !labels.includes(label)
+  );
+  if (missing !== undefined) {
+    throw new Error(
+      `Column "${missing}" is missing from the Excel file, please fix the template in the editor`
+    );
+  }
+  return template;
+};
+
+// Call bindTemplate first, unknown columns expand to nothing. `escape` is
+// applied to the values only, not to the template text.
+export const expandTemplate = (
+  row: FormattedRow,
+  labels: string[],
+  template: FieldTemplate,
+  escape: (value: string) => string = (value) => value
+) => {
+  const lines = template.text.split(/\r?\n/).map((line) => {
+    let filled = false;
+    let used = false;
+    const text = line.replace(placeholder, (_m, name: string) => {
+      const value = row[labels.indexOf(name.trim())];
+      const s = value === undefined || value === null ? '' : `${value}`;
+      used = true;
+      filled = filled || s.trim() !== '';
+      return escape(s);
+    });
+    // Separators like ", " are left over when a whole line is empty
+    return {
+      text,
+      blank: used && !filled && !/[\p{L}\p{N}]/u.test(stripMarkup(text)),
+    };
+  });
+
+  return lines
+    .filter((l) => !(template.collapseBlank && l.blank))
+    .map((l) => l.text)
+    .join('\n');
+};
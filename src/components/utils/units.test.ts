@@ -0,0 +1,55 @@
+import { Object as FabricObject } from 'fabric/fabric-impl';
+import { CanvasLayout, toPoints } from './units';
+
+const legacy = (...objects: Partial<FabricObject>[]): CanvasLayout => ({
+  objects: objects as FabricObject[],
+  clientWidth: 1200,
+});
+
+describe('toPoints', () => {
+  it('keeps layouts already in points', () => {
+    const layout = { ...legacy({ left: 10 }), units: 'pt' as const };
+    expect(toPoints(layout, 600)).toBe(layout);
+    const unsized = { objects: [] };
+    expect(toPoints(unsized, 600)).toBe(unsized);
+  });
+
+  it('scales text boxes and their font size', () => {
+    const layout = legacy({
+      type: 'textbox',
+      left: 100,
+      top: 50,
+      width: 400,
+      height: 40,
+      fontSize: 20,
+    } as Partial<FabricObject>);
+    const converted = toPoints(layout, 600);
+    expect(converted.units).toBe('pt');
+    expect(converted.clientWidth).toBeUndefined();
+    expect(converted.objects[0]).toMatchObject({
+      left: 50,
+      top: 25,
+      width: 200,
+      height: 20,
+      fontSize: 10,
+    });
+  });
+
+  it('scales other objects by their scale', () => {
+    const [rect, line] = toPoints(
+      legacy(
+        { type: 'rect', left: 20, width: 100, scaleX: 2, strokeWidth: 4 },
+        { type: 'line', strokeWidth: 4, strokeUniform: true }
+      ),
+      600
+    ).objects;
+    expect(rect).toMatchObject({
+      left: 10,
+      width: 100,
+      scaleX: 1,
+      scaleY: 0.5,
+      strokeWidth: 4,
+    });
+    expect(line.strokeWidth).toBe(2);
+  });
+});
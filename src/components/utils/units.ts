@@ -0,0 +1,49 @@
+import { Object as FabricObject, Textbox } from 'fabric/fabric-impl';
+
+export interface CanvasLayout {
+  objects: FabricObject[];
+  // Width of the editor in pixels, layouts saved before points were used
+  clientWidth?: number;
+  units?: 'pt';
+}
+
+const scaleObject = (o: FabricObject, ratio: number) => {
+  const scaled = {
+    ...o,
+    left: (o.left || 0) * ratio,
+    top: (o.top || 0) * ratio,
+    // Uniform strokes don't follow the object scale
+    strokeWidth: (o.strokeWidth || 0) * (o.strokeUniform ? ratio : 1),
+  };
+  if (o.type?.includes('text')) {
+    return {
+      ...scaled,
+      width: (o.width || 0) * ratio,
+      height: (o.height || 0) * ratio,
+      fontSize: ((o as Textbox).fontSize || 16) * ratio,
+    };
+  }
+  return {
+    ...scaled,
+    scaleX: (o.scaleX || 1) * ratio,
+    scaleY: (o.scaleY || 1) * ratio,
+  };
+};
+
+export const isLegacyLayout = (layout: CanvasLayout) =>
+  layout.units !== 'pt' && !!layout.clientWidth;
+
+// Canvas units are PDF points of the page as displayed, `width` points wide
+export const toPoints = <T extends CanvasLayout>(layout: T, width: number) => {
+  if (!isLegacyLayout(layout)) {
+    return layout;
+  }
+
+  const ratio = width / (layout.clientWidth || width);
+  return {
+    ...layout,
+    objects: layout.objects.map((o) => scaleObject(o, ratio)),
+    clientWidth: undefined,
+    units: 'pt',
+  } as T;
+};
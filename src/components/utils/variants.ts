@@ -0,0 +1,43 @@
+import { FieldBinding, SavedBinding } from './binding';
+
+// A template used for the records whose column has one of the comma
+// separated values, with a layout of its own
+export interface TemplateVariant<L = unknown> {
+  value: string;
+  pdfFile: string;
+  canvasData?: L;
+  formData?: Record<string, SavedBinding>;
+}
+
+// Records matching no variant use the main template
+export interface TemplateChoice<L = unknown> extends FieldBinding {
+  variants: TemplateVariant<L>[];
+}
+
+export type InsertPosition = 'before' | 'after';
+
+// A PDF added as is to the pages of every record
+export interface PdfInsert {
+  file: string;
+  position: InsertPosition;
+}
+
+export const insertPositions: { value: InsertPosition; label: string }[] = [
+  { value: 'before', label: 'Before each record' },
+  { value: 'after', label: 'After each record' },
+];
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+// Index of the variant for a cell value, -1 for the main template
+export const pickVariant = (
+  value: unknown,
+  variants: TemplateVariant<unknown>[]
+) => {
+  const key = normalize(
+    value === undefined || value === null ? '' : `${value}`
+  );
+  return variants.findIndex((v) =>
+    v.value.split(',').some((s) => normalize(s) === key)
+  );
+};
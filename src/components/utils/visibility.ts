@@ -0,0 +1,35 @@
+import { filterOperators, matchRow, RowFilter } from './filter';
+import { FormattedRow } from './format';
+
+// Fields and pages are shown only for matching rows, or hidden for them
+export interface VisibilityRule extends RowFilter {
+  hide?: boolean;
+}
+
+export const hasRule = (rule?: VisibilityRule) =>
+  !!rule?.conditions?.some((c) => c.index !== -1);
+
+// Call with the row of the record, or of the table line for table fields
+export const isVisible = (
+  row: FormattedRow,
+  labels: string[],
+  rule?: VisibilityRule
+) => !hasRule(rule) || matchRow(row, labels, rule) !== !!rule?.hide;
+
+// e.g. Shown if Country = DE and Discount is not empty
+export const describeRule = (rule?: VisibilityRule) => {
+  if (!rule || !hasRule(rule)) {
+    return '';
+  }
+  const conditions = rule.conditions
+    .filter((c) => c.index !== -1)
+    .map((c) => {
+      const operator = filterOperators.find((o) => o.value === c.operator);
+      return [c.label, operator?.label, operator?.unary ? '' : c.value]
+        .filter((part) => part)
+        .join(' ');
+    });
+  return `${rule.hide ? 'Hidden' : 'Shown'} if ${conditions.join(
+    ` ${rule.join} `
+  )}`;
+};
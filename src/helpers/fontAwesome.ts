@@ -3,6 +3,10 @@ import { fab } from '@fortawesome/free-brands-svg-icons';
 import { faFilePdf, faTrashAlt } from '@fortawesome/free-regular-svg-icons';
 import {
   faAlignCenter,
+  faAngleDoubleLeft,
+  faAngleDoubleRight,
+  faAngleLeft,
+  faAngleRight,
   faEnvelope,
   faFolder,
   faAlignLeft,
@@ -10,10 +14,15 @@ import {
   faCog,
   faEllipsisV,
   faExternalLinkAlt,
+  faEye,
   faHistory,
+  faImage,
   faPlus,
+  faRedo,
   faSearch,
+  faTable,
   faTimesCircle,
+  faUnderline,
 } from '@fortawesome/free-solid-svg-icons';
 
 library.add(
@@ -31,5 +40,14 @@ library.add(
   faSearch,
   faCog,
   faExternalLinkAlt,
-  faTimesCircle
+  faTable,
+  faImage,
+  faRedo,
+  faTimesCircle,
+  faUnderline,
+  faEye,
+  faAngleDoubleLeft,
+  faAngleDoubleRight,
+  faAngleLeft,
+  faAngleRight
 );
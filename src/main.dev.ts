@@ -31,7 +31,20 @@ import nodeurl from 'url';
 import { promisify } from 'util';
 
 import MenuBuilder from './menu';
-import renderPdf, { loadForm, RenderPdfState, RowMap } from './render';
+import renderPdf, {
+  checkOverflow,
+  exportForm,
+  loadForm,
+  RenderPdfState,
+} from './render';
+import { RowMap } from './components/utils/excel';
+import { listSystemFonts } from './components/utils/fonts';
+import { toCsv } from './components/utils/csv';
+import {
+  PreviewPage,
+  SampleMode,
+  sampleRecords,
+} from './components/utils/sample';
 import { SmtpConfigType } from './email';
 
 const Store = require('electron-store');
@@ -186,6 +199,44 @@ const loadConfig = async (fp: string) => {
   return conf;
 };
 
+// The filter, record selection and file names are set in the merge window,
+// the editor only has the ones it loaded with
+const withMergeSettings = async (
+  params: RenderPdfState
+): Promise<RenderPdfState> => {
+  let saved: RenderPdfState;
+  try {
+    saved = await loadConfig(getPathHash(params.pdfFile));
+  } catch (e) {
+    // Not saved yet
+    return params;
+  }
+  return {
+    ...params,
+    dataOptions: {
+      ...params.dataOptions,
+      filter: saved.dataOptions?.filter,
+      selection: saved.dataOptions?.selection,
+    },
+    fileNaming: saved.fileNaming,
+  };
+};
+
+// The merge window may be open while the layout is edited, so only its own
+// settings are written
+const saveMergeSettings = async (params: RenderPdfState) => {
+  const saved: RenderPdfState = await loadConfig(getPathHash(params.pdfFile));
+  return saveConfig({
+    ...saved,
+    dataOptions: {
+      ...saved.dataOptions,
+      filter: params.dataOptions?.filter,
+      selection: params.dataOptions?.selection,
+    },
+    fileNaming: params.fileNaming,
+  });
+};
+
 const loadConfigs = async () => {
   const configFolder = app.getPath('userData');
 
@@ -210,6 +261,26 @@ const removeConfig = async (confPath: string) => {
   return promisify(fs.unlink)(confPath);
 };
 
+const issueFunc = (issues: string[]) => (record: number, message: string) => {
+  issues.push(`Record ${record}: ${message}`);
+};
+
+// Shown with the result, long lists are cut short
+const issuesDetail = (issues: string[]) => {
+  if (!issues.length) {
+    return undefined;
+  }
+  const shown = issues.slice(0, 20);
+  const more = issues.length - shown.length;
+  return [...shown, ...(more > 0 ? [`...and ${more} more`] : [])].join('\n');
+};
+
+// File name templates can put records in subfolders
+const writeOutput = async (filename: string, content: Uint8Array) => {
+  await promisify(fs.mkdir)(path.dirname(filename), { recursive: true });
+  await writeFile(filename, content);
+};
+
 const savePdf = async (params: RenderPdfState) => {
   try {
     await saveConfig(params);
@@ -224,9 +295,15 @@ const savePdf = async (params: RenderPdfState) => {
     combinePdf,
     canvasData,
     formData,
+    dataOptions,
     outputPdf,
+    formMode,
+    variants,
+    inserts,
+    fileNaming,
   } = params;
 
+  const issues: string[] = [];
   try {
     const created = await renderPdf(
       outputPdf,
@@ -234,11 +311,18 @@ const savePdf = async (params: RenderPdfState) => {
       excelFile,
       getRowsLimit(),
       combinePdf,
-      writeFile,
+      writeOutput,
       (page, total) =>
         mailMergeWindow?.webContents.send('save-progress', { page, total }),
       canvasData,
-      formData
+      formData,
+      dataOptions,
+      issueFunc(issues),
+      undefined,
+      formMode,
+      variants,
+      inserts,
+      fileNaming
     );
 
     if (created > 0) {
@@ -253,11 +337,12 @@ const savePdf = async (params: RenderPdfState) => {
 
       if (mailMergeWindow) {
         dialog.showMessageBox(mailMergeWindow, {
-          type: 'info',
+          type: issues.length ? 'warning' : 'info',
           title: 'Mail merge success!',
           message: `Created ${created} PDF${
             created === 1 ? '' : 's'
           } successfully`,
+          detail: issuesDetail(issues),
         });
       }
     }
@@ -286,33 +371,67 @@ const openPdf = (pdfPath: string) => {
   win.loadURL(nodeurl.pathToFileURL(pdfPath).toString());
 };
 
-const previewPdf = async (params: RenderPdfState) => {
+// Files of the last preview, replaced by the next one
+let previewFiles: string[] = [];
+
+const previewRecords = async (
+  params: RenderPdfState,
+  count: number,
+  mode: SampleMode
+) => {
   try {
     await saveConfig(params);
   } catch (e) {
     dialog.showErrorBox('Save config error', e.message);
-    return;
+    return undefined;
   }
 
-  const { pdfFile, excelFile, canvasData, formData } = params;
+  const {
+    pdfFile,
+    excelFile,
+    canvasData,
+    formData,
+    dataOptions,
+    formMode,
+    variants,
+    inserts,
+  } = params;
 
+  await Promise.all(
+    previewFiles.map((f) => promisify(fs.unlink)(f).catch(() => {}))
+  );
+  previewFiles = [];
+
+  const issues: string[] = [];
+  const pages: PreviewPage[] = [];
   try {
+    // Names are new every time, so the viewer doesn't show cached pages
     const output = path.join(
       app.getPath('temp'),
-      `preview-${path.basename(pdfFile)}`
+      `preview-${Date.now()}-${path.basename(pdfFile)}`
     );
     await renderPdf(
       output,
       pdfFile,
       excelFile,
-      1,
-      true,
-      writeFile,
+      getRowsLimit(),
+      false,
+      async (filename, content, _row, record) => {
+        await writeFile(filename, content);
+        previewFiles.push(filename);
+        pages.push({ record: record || pages.length + 1, file: filename });
+      },
       () => {},
       canvasData,
-      formData || {}
+      formData || {},
+      dataOptions,
+      issueFunc(issues),
+      (groups) => sampleRecords(groups, count, mode),
+      formMode,
+      variants,
+      inserts
     );
-    openPdf(output);
+    return { pages, issues };
   } catch (e) {
     dialog.showErrorBox('Preview failed', e.message);
 
@@ -323,6 +442,7 @@ const previewPdf = async (params: RenderPdfState) => {
         body: 'Check your Excel and PDF files again',
       }).show();
     }
+    return undefined;
   }
 };
 
@@ -425,7 +545,18 @@ const sendPdfMail = async (
   bodyTemplate: string,
   params: RenderPdfState
 ) => {
-  const { pdfFile, excelFile, canvasData, formData } = params;
+  const {
+    pdfFile,
+    excelFile,
+    canvasData,
+    formData,
+    dataOptions,
+    formMode,
+    variants,
+    inserts,
+    fileNaming,
+  } = params;
+  const issues: string[] = [];
   try {
     const output = path.join(app.getPath('temp'), path.basename(pdfFile));
 
@@ -438,7 +569,15 @@ const sendPdfMail = async (
       sendMailFunc(fromEmail, emailIndex, subjectTemplate, bodyTemplate),
       emailProgressFunc(emailIndex),
       canvasData,
-      formData
+      formData,
+      dataOptions,
+      issueFunc(issues),
+      undefined,
+      formMode,
+      variants,
+      inserts,
+      // Attachments are not saved, records may share a name
+      fileNaming && { ...fileNaming, collision: 'overwrite' }
     );
 
     if (created > 0) {
@@ -451,11 +590,12 @@ const sendPdfMail = async (
 
       if (mailMergeWindow) {
         dialog.showMessageBox(mailMergeWindow, {
-          type: 'info',
+          type: issues.length ? 'warning' : 'info',
           title: 'Sent out emails success!',
           message: `Sent out ${created} email${
             created === 1 ? '' : 's'
           } successfully`,
+          detail: issuesDetail(issues),
         });
       }
     }
@@ -476,6 +616,96 @@ const sendPdfMail = async (
  * Handlers events from React
  */
 
+const checkPdf = async (params: RenderPdfState) => {
+  const { pdfFile, excelFile, canvasData, dataOptions, variants } = params;
+  try {
+    const found = await checkOverflow(
+      pdfFile,
+      excelFile,
+      getRowsLimit(),
+      canvasData,
+      dataOptions,
+      variants
+    );
+    if (!found.length) {
+      dialog.showMessageBox({
+        type: 'info',
+        title: 'Overflow check',
+        message: 'Every value fits in its field',
+      });
+      return;
+    }
+
+    const { response } = await dialog.showMessageBox({
+      type: 'warning',
+      title: 'Overflow check',
+      message: `${found.length} value${
+        found.length === 1 ? '' : 's'
+      } too long for their field`,
+      detail: issuesDetail(
+        found.map(
+          (f) =>
+            `Record ${f.record}, page ${f.page}, ${f.field}: ${f.value.slice(
+              0,
+              60
+            )}`
+        )
+      ),
+      buttons: ['OK', 'Save list...'],
+    });
+    if (response === 1) {
+      const file = await dialog.showSaveDialog({
+        defaultPath: 'overflow.csv',
+        filters: [{ name: 'CSV Files', extensions: ['csv'] }],
+      });
+      if (file && file.filePath) {
+        await writeFile(
+          file.filePath,
+          toCsv([
+            ['Record', 'Page', 'Field', 'Value'],
+            ...found.map((f) => [`${f.record}`, `${f.page}`, f.field, f.value]),
+          ])
+        );
+      }
+    }
+  } catch (e) {
+    dialog.showErrorBox('Overflow check failed', e.message);
+  }
+};
+
+const saveFillable = async (params: RenderPdfState) => {
+  const { pdfFile, excelFile, canvasData, dataOptions } = params;
+  const file = await dialog.showSaveDialog({
+    defaultPath: `${path.basename(
+      pdfFile,
+      path.extname(pdfFile)
+    )}-fillable.pdf`,
+    filters: [{ name: 'PDF Files', extensions: ['pdf'] }],
+  });
+  if (!file || !file.filePath) {
+    return;
+  }
+
+  try {
+    const count = await exportForm(
+      pdfFile,
+      file.filePath,
+      excelFile,
+      getRowsLimit(),
+      canvasData,
+      dataOptions
+    );
+    dialog.showMessageBox({
+      type: 'info',
+      title: 'Fillable PDF',
+      message: `Saved ${count} form field${count === 1 ? '' : 's'}`,
+      detail: file.filePath,
+    });
+  } catch (e) {
+    dialog.showErrorBox('Fillable PDF failed', e.message);
+  }
+};
+
 // This method return a Buffer, if you want to convert to string
 // use Buffer.from(buffer).toString()
 ipcMain.handle(
@@ -530,12 +760,27 @@ ipcMain.handle(
 
 ipcMain.handle('save-config', async (_event, params: RenderPdfState) => {
   try {
-    await saveConfig(params);
+    await saveConfig(await withMergeSettings(params));
   } catch (e) {
     dialog.showErrorBox('Save config error', e.message);
   }
 });
 
+ipcMain.handle(
+  'save-merge-settings',
+  async (_event, params: RenderPdfState) => {
+    try {
+      await saveMergeSettings(params);
+    } catch (e) {
+      dialog.showErrorBox('Save config error', e.message);
+    }
+  }
+);
+
+ipcMain.handle('merge-settings', async (_event, params: RenderPdfState) => {
+  return withMergeSettings(params);
+});
+
 ipcMain.handle('load-config', async (_event, fp: string) => {
   try {
     return loadConfig(fp);
@@ -545,8 +790,23 @@ ipcMain.handle('load-config', async (_event, fp: string) => {
   }
 });
 
-ipcMain.handle('preview-pdf', async (_event, params: RenderPdfState) => {
-  return previewPdf(params);
+ipcMain.handle(
+  'preview-records',
+  async (_event, params: RenderPdfState, count: number, mode: SampleMode) => {
+    return previewRecords(await withMergeSettings(params), count, mode);
+  }
+);
+
+ipcMain.handle('open-preview', async (_event, file: string) => {
+  return openPdf(file);
+});
+
+ipcMain.handle('check-overflow', async (_event, params: RenderPdfState) => {
+  return checkPdf(await withMergeSettings(params));
+});
+
+ipcMain.handle('export-form', async (_event, params: RenderPdfState) => {
+  return saveFillable(params);
 });
 
 ipcMain.handle('save-pdf', async (_event, params: RenderPdfState) => {
@@ -554,7 +814,7 @@ ipcMain.handle('save-pdf', async (_event, params: RenderPdfState) => {
 });
 
 ipcMain.handle('mail-merge', async (_event, params: RenderPdfState) => {
-  return mailMerge(params);
+  return mailMerge(await withMergeSettings(params));
 });
 
 ipcMain.handle('load-history', async () => {
@@ -569,6 +829,10 @@ ipcMain.handle('load-form', async (_event, { filename }) => {
   return loadForm(filename);
 });
 
+ipcMain.handle('list-fonts', async () => {
+  return listSystemFonts();
+});
+
 ipcMain.handle('get-store', async (_event, { key }) => {
   return store.get(key);
 });
@@ -1,14 +1,13 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 /* eslint-disable @typescript-eslint/no-loop-func */
 /* eslint-disable no-await-in-loop */
-import { Rect, Textbox } from 'fabric/fabric-impl';
+import { Ellipse, Image, Line, Rect, Textbox } from 'fabric/fabric-impl';
 import {
   PDFDocument,
   StandardFonts,
   PDFFont,
   rgb,
-  layoutMultilineText,
-  TextAlignment,
+  Color,
   PDFPage,
   PDFForm,
   PDFField,
@@ -17,21 +16,118 @@ import {
   PDFDropdown,
   PDFOptionList,
   PDFRadioGroup,
+  PDFImage,
+  degrees,
+  pushGraphicsState,
+  popGraphicsState,
+  rectangle,
+  clip,
+  endPath,
+  concatTransformationMatrix,
+  setCharacterSpacing,
+  setTextRenderingMode,
+  TextRenderingMode,
+  setLineWidth,
+  setStrokingColor,
+  TextAlignment,
+  PDFName,
+  PDFDict,
+  PDFRef,
+  PDFString,
+  PDFHexString,
+  PDFObjectCopier,
 } from 'pdf-lib';
 import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
 import { promisify } from 'util';
-import XLSX from 'xlsx';
 import QRCode from 'qrcode';
+import bwipjs from 'bwip-js';
+import fontkit from '@pdf-lib/fontkit';
+import {
+  DataOptions,
+  readGroups,
+  readSheet,
+  RowMap,
+} from './components/utils/excel';
+import { CustomFont } from './components/utils/fonts';
+import {
+  BarcodeOptions,
+  BarcodeType,
+  getBarcodeType,
+  getEcLevel,
+} from './components/utils/barcode';
+import { bindIndex, SavedBinding, toBinding } from './components/utils/binding';
+import { fitImage, ImageOptions } from './components/utils/image';
+import { FieldFormat, formatValue } from './components/utils/format';
+import {
+  expandFileName,
+  FileNaming,
+  missingFileLabel,
+  numberedFile,
+} from './components/utils/filename';
+import {
+  FormMode,
+  isChecked,
+  mapValue,
+  matchOption,
+  matchOptions,
+} from './components/utils/formvalue';
+import { boxLines, FieldOverflow, fitText } from './components/utils/overflow';
+import {
+  baselineOffset,
+  escapeMarkup,
+  LaidLine,
+  lineStep,
+  parseMarkup,
+  RunFont,
+  stripMarkup,
+  styledFontName,
+  TextRun,
+  TextStyle,
+  textHeight,
+  VerticalAlign,
+} from './components/utils/richtext';
+import { parseColor } from './components/utils/shape';
+import { toPoints } from './components/utils/units';
+import {
+  InsertPosition,
+  PdfInsert,
+  pickVariant,
+  TemplateChoice,
+} from './components/utils/variants';
+import { isVisible, VisibilityRule } from './components/utils/visibility';
+import {
+  bindTemplate,
+  expandTemplate,
+  FieldTemplate,
+  templateLabels,
+} from './components/utils/template';
 
 const readFile = promisify(fs.readFile);
 
 interface Fieldbox extends Textbox {
   index: number;
+  label?: string;
   renderType: string;
+  format?: FieldFormat;
+  template?: FieldTemplate;
+  // TTF/OTF file for fonts other than the standard 14
+  fontFile?: string;
+  barcode?: BarcodeOptions;
+  image?: ImageOptions;
+  overflow?: FieldOverflow;
+  verticalAlign?: VerticalAlign;
+  visibility?: VisibilityRule;
 }
+type CanvasObject = Fieldbox | Rect | Image | Ellipse | Line;
 export interface CanvasObjects {
-  objects: [Fieldbox | Rect];
-  clientWidth: number;
+  objects: [CanvasObject];
+  // Older layouts are in pixels of an editor this wide
+  clientWidth?: number;
+  units?: 'pt';
+  // The page is left out of records that fail the rule
+  visibility?: VisibilityRule;
 }
 
 export interface RenderPdfState {
@@ -41,13 +137,34 @@ export interface RenderPdfState {
   outputPdf: string;
   canvasData?: CanvasMap;
   formData?: FormMap;
+  dataOptions?: DataOptions;
+  fonts?: CustomFont[];
+  formMode?: FormMode;
+  variants?: TemplateChoice<CanvasMap>;
+  inserts?: PdfInsert[];
+  fileNaming?: FileNaming;
 }
 
-export type RowMap = Record<number, string>;
 type FontMap = Record<string, PDFFont>;
-type FormMap = Record<string, number>;
+type ImageMap = Record<string, PDFImage>;
+type FormMap = Record<string, SavedBinding>;
 type CanvasMap = Record<number, CanvasObjects>;
 
+// Everything embedded is cached per document, the template is reloaded for
+// every record
+interface RenderContext {
+  pdfDoc: PDFDocument;
+  labels: string[];
+  cachedFonts: FontMap;
+  cachedImages: ImageMap;
+  // Relative image paths are resolved from the data file folder
+  dataDir: string;
+  reportIssue: (message: string) => void;
+}
+
+// Thrown when a record can't be merged, the merge goes on with the next one
+class RowError extends Error {}
+
 function hexToRgb(hex: string) {
   const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
   return result
@@ -62,53 +179,466 @@ function hexToRgb(hex: string) {
 const getFont = async (
   font: string | undefined,
   pdfDoc: PDFDocument,
-  cachedFonts: FontMap
+  cachedFonts: FontMap,
+  fontFile?: string
 ) => {
-  const key = font || StandardFonts.Helvetica;
+  const key = fontFile || font || StandardFonts.Helvetica;
   if (!cachedFonts[key]) {
-    cachedFonts[key] = await pdfDoc.embedFont(key);
+    if (fontFile) {
+      let buff: Buffer;
+      try {
+        buff = await readFile(fontFile);
+      } catch (e) {
+        throw new Error(`Font file "${fontFile}" can't be read: ${e.message}`);
+      }
+      pdfDoc.registerFontkit(fontkit);
+      // Only the glyphs in use are embedded
+      cachedFonts[key] = await pdfDoc.embedFont(buff, { subset: true });
+    } else {
+      cachedFonts[key] = await pdfDoc.embedFont(key);
+    }
   }
   return cachedFonts[key];
 };
 
-const sheetToArray = (sheet: XLSX.WorkSheet) => {
-  const result = [];
-  if (sheet['!ref']) {
-    const range = XLSX.utils.decode_range(sheet['!ref']);
-    for (let rowNum = range.s.r; rowNum <= range.e.r; rowNum += 1) {
-      const row = [];
-      for (let colNum = range.s.c; colNum <= range.e.c; colNum += 1) {
-        const nextCell =
-          sheet[XLSX.utils.encode_cell({ r: rowNum, c: colNum })];
-        if (!nextCell) {
-          row.push('');
-        } else {
-          row.push(nextCell.v);
-        }
+// Resolve field bindings by column name, in case columns were moved
+const bindCanvasData = (labels: string[], canvasData?: CanvasMap) => {
+  if (!canvasData) {
+    return canvasData;
+  }
+  return Object.keys(canvasData).reduce((p, page) => {
+    const data = canvasData[parseInt(page, 10)];
+    const objects = data.objects.map((o) => {
+      const fld = o as Fieldbox;
+      if (fld.renderType === 'template') {
+        return {
+          ...fld,
+          template: bindTemplate(
+            labels,
+            fld.template || { text: fld.text || '' }
+          ),
+        };
+      }
+      if (fld.index === undefined || fld.index === null) {
+        return o;
       }
-      result.push(row);
+      return { ...fld, index: bindIndex(labels, fld) };
+    });
+    return { ...p, [page]: { ...data, objects } };
+  }, {} as CanvasMap);
+};
+
+const bindFormData = (labels: string[], formData?: FormMap) => {
+  if (!formData) {
+    return formData;
+  }
+  return Object.keys(formData).reduce((p, key) => {
+    const binding = toBinding(formData[key]);
+    if (binding.template) {
+      return {
+        ...p,
+        [key]: { ...binding, template: bindTemplate(labels, binding.template) },
+      };
+    }
+    const index = binding.index === -1 ? -1 : bindIndex(labels, binding);
+    return { ...p, [key]: { ...binding, index } };
+  }, {} as FormMap);
+};
+
+interface TableRegion {
+  top: number;
+  bottom: number;
+  rowHeight: number;
+}
+
+// Text fields whose top edge is inside the region repeat for every group row
+const inTable = (table: TableRegion, o: CanvasObject) =>
+  !!o.type?.includes('text') &&
+  (o.top || 0) >= table.top &&
+  (o.top || 0) < table.bottom;
+
+const getTable = (canvasData: CanvasObjects): TableRegion | undefined => {
+  const region = canvasData.objects.find(
+    (o) => (o as Fieldbox).renderType === 'table'
+  );
+  if (!region) {
+    return undefined;
+  }
+
+  const top = region.top || 0;
+  const bottom = top + (region.height || 0) * (region.scaleY || 1);
+  // A table line is as tall as the fields placed in its first line
+  const rowHeight = canvasData.objects
+    .filter((o) => inTable({ top, bottom, rowHeight: 0 }, o))
+    .reduce((h, o) => Math.max(h, (o.top || 0) + (o.height || 0) - top), 1);
+  return { top, bottom, rowHeight };
+};
+
+// Lines of the group for every copy of a page, extra copies are continuations
+const splitLines = (group: RowMap[], canvasData?: CanvasObjects) => {
+  const table = canvasData && getTable(canvasData);
+  if (!table) {
+    return [group];
+  }
+
+  const perPage = Math.max(
+    1,
+    Math.floor((table.bottom - table.top) / table.rowHeight)
+  );
+  const chunks: RowMap[][] = [];
+  for (let i = 0; i < group.length; i += perPage) {
+    chunks.push(group.slice(i, i + perPage));
+  }
+  return chunks.length ? chunks : [[]];
+};
+
+const barcodeImage = async (
+  text: string,
+  type: BarcodeType,
+  width: number,
+  options: BarcodeOptions = {}
+) => {
+  const ecLevel = getEcLevel(type, options);
+  if (!type.bcid) {
+    return QRCode.toDataURL(text, {
+      width,
+      margin: options.quietZone ?? 4,
+      errorCorrectionLevel: (ecLevel ||
+        'M') as QRCode.QRCodeErrorCorrectionLevel,
+    });
+  }
+
+  // bwip-js rejects options set to undefined
+  const bwipOptions = {
+    bcid: type.bcid,
+    text,
+    scale: 3,
+    paddingwidth: options.quietZone ?? (type.linear ? 10 : 2),
+    paddingheight: options.quietZone ?? (type.linear ? 0 : 2),
+    ...(type.linear
+      ? {
+          includetext: options.showText !== false,
+          textxalign: 'center' as const,
+          height: options.barHeight || 15,
+        }
+      : {}),
+    ...(ecLevel ? { eclevel: parseInt(ecLevel, 10) } : {}),
+  };
+  return bwipjs.toBuffer(bwipOptions);
+};
+
+const readImage = async (source: string, dataDir: string) => {
+  if (source.startsWith('data:')) {
+    return Buffer.from(source.slice(source.indexOf(',') + 1), 'base64');
+  }
+  const fp = source.startsWith('file:')
+    ? fileURLToPath(source)
+    : path.resolve(dataDir, source);
+  try {
+    return await readFile(fp);
+  } catch (e) {
+    throw new Error(e.code === 'ENOENT' ? 'file not found' : e.message);
+  }
+};
+
+const embedImage = async (source: string, context: RenderContext) => {
+  const { pdfDoc, cachedImages } = context;
+  if (!cachedImages[source]) {
+    const buff = await readImage(source, context.dataDir);
+    if (buff.toString('latin1', 0, 4) === '\x89PNG') {
+      cachedImages[source] = await pdfDoc.embedPng(buff);
+    } else if (buff[0] === 0xff && buff[1] === 0xd8) {
+      cachedImages[source] = await pdfDoc.embedJpg(buff);
+    } else {
+      throw new Error('only PNG and JPG images are supported');
     }
   }
-  return result;
+  return cachedImages[source];
 };
 
-const readFirstSheet = (path: string, rowsLimit: number) => {
-  const headerOffset = 1;
-  const sheetRows = rowsLimit + headerOffset;
-
-  const workbook = XLSX.readFile(path, { sheetRows });
-  const sheetsList = workbook.SheetNames;
-  const firstSheet = workbook.Sheets[sheetsList[0]];
-  const rows = sheetToArray(firstSheet)
-    .slice(headerOffset) // Skip header
-    .map((arr) => {
-      const row: RowMap = {};
-      arr.forEach((r, i) => {
-        row[i] = r;
+const renderImage = async (
+  source: string,
+  page: PDFPage,
+  box: { x: number; y: number; width: number; height: number },
+  context: RenderContext,
+  options: ImageOptions = {}
+) => {
+  let image: PDFImage;
+  try {
+    image = await embedImage(source, context);
+  } catch (e) {
+    const message = `Image "${source.slice(0, 100)}" can't be loaded: ${
+      e.message
+    }`;
+    if (options.missing === 'fail') {
+      throw new RowError(message);
+    }
+    context.reportIssue(message);
+    if (options.missing === 'placeholder') {
+      page.drawRectangle({
+        ...box,
+        color: rgb(0.93, 0.93, 0.93),
+        borderColor: rgb(0.6, 0.6, 0.6),
+        borderWidth: 0.5,
       });
-      return row;
+    }
+    return;
+  }
+
+  const fit = fitImage(
+    image.width,
+    image.height,
+    box.width,
+    box.height,
+    options.fit
+  );
+  const cover = options.fit === 'cover';
+  if (cover) {
+    page.pushOperators(
+      pushGraphicsState(),
+      rectangle(box.x, box.y, box.width, box.height),
+      clip(),
+      endPath()
+    );
+  }
+  page.drawImage(image, {
+    x: box.x + fit.x,
+    y: box.y + fit.y,
+    width: fit.width,
+    height: fit.height,
+  });
+  if (cover) {
+    page.pushOperators(popGraphicsState());
+  }
+};
+
+// Fabric places objects by their top left corner and rotates them clockwise
+// around it, dx and dy are points from that corner
+const pagePoint = (o: CanvasObject, dx: number, dy: number, height: number) => {
+  const angle = ((o.angle || 0) * Math.PI) / 180;
+  const x = (o.left || 0) + dx * Math.cos(angle) - dy * Math.sin(angle);
+  const y = (o.top || 0) + dx * Math.sin(angle) + dy * Math.cos(angle);
+  return { x, y: height - y };
+};
+
+// Same rotation for what is drawn next, x and y are in PDF points
+const rotateAround = (x: number, y: number, angle: number) => {
+  const a = (-angle * Math.PI) / 180;
+  // Keeps right angles exact instead of 6e-17
+  const cos = Math.round(Math.cos(a) * 1e9) / 1e9;
+  const sin = Math.round(Math.sin(a) * 1e9) / 1e9;
+  return concatTransformationMatrix(
+    cos,
+    sin,
+    -sin,
+    cos,
+    x - x * cos + y * sin,
+    y - x * sin - y * cos
+  );
+};
+
+// The editor shows pages the way viewers do, cropped and turned by /Rotate.
+// The matrix maps that view back into the page's own coordinates.
+const pageView = (page: PDFPage) => {
+  const { x, y, width, height } = page.getCropBox();
+  const rotation = ((page.getRotation().angle % 360) + 360) % 360;
+  switch (rotation) {
+    case 90:
+      return {
+        width: height,
+        height: width,
+        matrix: [0, 1, -1, 0, x + width, y],
+      };
+    case 180:
+      return {
+        width,
+        height,
+        matrix: [-1, 0, 0, -1, x + width, y + height],
+      };
+    case 270:
+      return {
+        width: height,
+        height: width,
+        matrix: [0, -1, 1, 0, x, y + height],
+      };
+    default:
+      return { width, height, matrix: [1, 0, 0, 1, x, y] };
+  }
+};
+
+// Logos, signatures and stamps placed in the editor
+const renderStatic = async (
+  o: Image,
+  page: PDFPage,
+  pageHeight: number,
+  context: RenderContext
+) => {
+  const { src } = o as Image & { src?: string };
+  if (!src) {
+    return;
+  }
+
+  let image: PDFImage;
+  try {
+    image = await embedImage(src, context);
+  } catch (e) {
+    // Part of the layout, every record would miss it
+    throw new Error(
+      `Static image "${src.slice(0, 100)}" can't be loaded: ${e.message}`
+    );
+  }
+  const width = (o.width || 0) * (o.scaleX || 1);
+  const height = (o.height || 0) * (o.scaleY || 1);
+  // pdf-lib rotates counterclockwise around the bottom left corner
+  page.drawImage(image, {
+    ...pagePoint(o, 0, height, pageHeight),
+    width,
+    height,
+    rotate: degrees(-(o.angle || 0)),
+    opacity: o.opacity ?? 1,
+  });
+};
+
+// Rectangles, ellipses, lines, highlights and white-out boxes
+const renderShape = (o: CanvasObject, page: PDFPage, pageHeight: number) => {
+  const fill = parseColor(o.fill as string);
+  const stroke = o.strokeWidth ? parseColor(o.stroke) : undefined;
+  if (!fill && !stroke) {
+    return;
+  }
+
+  const scaleX = o.scaleX || 1;
+  const scaleY = o.scaleY || 1;
+  // The stroke is centered on the outline and outside of width and height
+  const strokeWidth = stroke ? o.strokeWidth || 0 : 0;
+  const strokeX = o.strokeUniform ? strokeWidth : strokeWidth * scaleX;
+  const strokeY = o.strokeUniform ? strokeWidth : strokeWidth * scaleY;
+  const width = (o.width || 0) * scaleX;
+  const height = (o.height || 0) * scaleY;
+  const opacity = o.opacity ?? 1;
+  const style = {
+    color: fill && rgb(fill.r, fill.g, fill.b),
+    opacity: opacity * (fill?.alpha ?? 1),
+    borderColor: stroke && rgb(stroke.r, stroke.g, stroke.b),
+    borderOpacity: opacity * (stroke?.alpha ?? 1),
+    borderWidth: (strokeX + strokeY) / 2,
+  };
+  const rotate = degrees(-(o.angle || 0));
+  const centerX = strokeX / 2 + width / 2;
+  const centerY = strokeY / 2 + height / 2;
+
+  if (o.type === 'line') {
+    if (!stroke) {
+      return;
+    }
+    // Line ends are stored relative to its center
+    const line = o as Line;
+    page.drawLine({
+      start: pagePoint(
+        o,
+        centerX + (line.x1 || 0) * scaleX,
+        centerY + (line.y1 || 0) * scaleY,
+        pageHeight
+      ),
+      end: pagePoint(
+        o,
+        centerX + (line.x2 || 0) * scaleX,
+        centerY + (line.y2 || 0) * scaleY,
+        pageHeight
+      ),
+      thickness: style.borderWidth,
+      color: style.borderColor,
+      opacity: style.borderOpacity,
+    });
+  } else if (o.type === 'ellipse') {
+    page.drawEllipse({
+      ...pagePoint(o, centerX, centerY, pageHeight),
+      xScale: width / 2,
+      yScale: height / 2,
+      rotate,
+      ...style,
     });
-  return rows;
+  } else {
+    page.drawRectangle({
+      ...pagePoint(o, strokeX / 2, strokeY / 2 + height, pageHeight),
+      width,
+      height,
+      rotate,
+      ...style,
+    });
+  }
+};
+
+// Layouts saved in editor pixels are converted with their page's width
+const pointCanvasData = (pdfDoc: PDFDocument, canvasData?: CanvasMap) => {
+  if (!canvasData) {
+    return canvasData;
+  }
+  const pages = pdfDoc.getPages();
+  return Object.keys(canvasData).reduce((p, page) => {
+    const n = parseInt(page, 10);
+    const data = canvasData[n];
+    const view = pages[n - 1] && pageView(pages[n - 1]);
+    return { ...p, [page]: view ? toPoints(data, view.width) : data };
+  }, {} as CanvasMap);
+};
+
+// A template with its layout bound to the columns, continuation pages are
+// copied from the untouched template
+interface BoundTemplate {
+  pdfBuff: Buffer;
+  templateDoc: PDFDocument;
+  boundCanvas?: CanvasMap;
+  boundForm?: FormMap;
+}
+
+const loadTemplate = async (
+  labels: string[],
+  pdfFile: string,
+  canvasData?: CanvasMap,
+  formData?: FormMap
+): Promise<BoundTemplate> => {
+  let pdfBuff: Buffer;
+  try {
+    pdfBuff = await readFile(pdfFile);
+  } catch (e) {
+    throw new Error(`Template "${pdfFile}" can't be read: ${e.message}`);
+  }
+  const templateDoc = await PDFDocument.load(pdfBuff);
+  return {
+    pdfBuff,
+    templateDoc,
+    boundCanvas: pointCanvasData(
+      templateDoc,
+      bindCanvasData(labels, canvasData)
+    ),
+    boundForm: bindFormData(labels, formData),
+  };
+};
+
+// Returns the template of a record, the main one unless a variant matches
+const loadTemplates = async (
+  labels: string[],
+  pdfFile: string,
+  canvasData?: CanvasMap,
+  formData?: FormMap,
+  choice?: TemplateChoice<CanvasMap>
+) => {
+  const main = await loadTemplate(labels, pdfFile, canvasData, formData);
+  const variants = (choice?.variants || []).filter((v) => v.pdfFile);
+  if (!choice || !variants.length) {
+    return () => main;
+  }
+
+  const index = bindIndex(labels, choice);
+  const templates: BoundTemplate[] = [];
+  for (let i = 0; i < variants.length; i += 1) {
+    const v = variants[i];
+    templates.push(
+      await loadTemplate(labels, v.pdfFile, v.canvasData, v.formData)
+    );
+  }
+  return (row: RowMap) => templates[pickVariant(row[index], variants)] || main;
 };
 
 // This workaround fixes TS to JS compiling problem
@@ -139,7 +669,13 @@ const getFieldType = (fld: PDFField): SupportedField => {
   return '';
 };
 
-const renderForm = (row: RowMap, formData?: FormMap, pdfForm?: PDFForm) => {
+const renderForm = (
+  row: RowMap,
+  labels: string[],
+  reportIssue: (message: string) => void,
+  formData?: FormMap,
+  pdfForm?: PDFForm
+) => {
   if (!pdfForm || !formData) {
     return;
   }
@@ -149,131 +685,454 @@ const renderForm = (row: RowMap, formData?: FormMap, pdfForm?: PDFForm) => {
   });
 
   Object.keys(formData).forEach((key) => {
-    const index = formData[key];
-    let value = row[index];
+    const { index, format, template, values } = toBinding(formData[key]);
 
-    if (index === -1 || value === undefined || value === null) {
+    if (
+      !template &&
+      (index === -1 || row[index] === undefined || row[index] === null)
+    ) {
       return;
     }
 
     const field = fieldMap[key];
-    value = `${value}`;
+    // The PDF may have changed since the field was bound
+    if (!field) {
+      reportIssue(
+        `Form field "${key}" is not in the PDF, its value was left out`
+      );
+      return;
+    }
+    // Form fields take plain text, bold and italic markup is dropped
+    const cell = template
+      ? stripMarkup(expandTemplate(row, labels, template, escapeMarkup))
+      : formatValue(row, index, format);
+    const value = mapValue(cell, values);
+    const unmatched = (v: string) =>
+      reportIssue(`"${v}" is not an option of form field "${key}"`);
 
     switch (getFieldType(field)) {
       case 'TextField':
         pdfForm.getTextField(key).setText(value);
         break;
-      case 'CheckBox':
-        if (value && value.toLowerCase() === 'true') {
+      case 'CheckBox': {
+        const checked = isChecked(value);
+        if (checked) {
           pdfForm.getCheckBox(key).check();
         } else {
           pdfForm.getCheckBox(key).uncheck();
         }
+        if (checked === undefined) {
+          reportIssue(
+            `"${value}" is neither checked nor unchecked for form field "${key}", it was left unchecked`
+          );
+        }
         break;
-      case 'RadioGroup':
-        if (pdfForm.getRadioGroup(key).getOptions().includes(value)) {
-          pdfForm.getRadioGroup(key).select(value);
+      }
+      case 'RadioGroup': {
+        const radio = pdfForm.getRadioGroup(key);
+        const option = matchOption(value, radio.getOptions());
+        if (option) {
+          radio.select(option);
+        } else if (value) {
+          unmatched(value);
         }
         break;
-      case 'OptionList':
-        if (pdfForm.getOptionList(key).getOptions().includes(value)) {
-          pdfForm.getOptionList(key).select(value);
+      }
+      case 'OptionList': {
+        const list = pdfForm.getOptionList(key);
+        const options = matchOptions(cell, list.getOptions(), values);
+        if (options.matched.length) {
+          list.select(options.matched);
         }
+        options.unmatched.forEach(unmatched);
         break;
-      case 'Dropdown':
-        if (pdfForm.getDropdown(key).getOptions().includes(value)) {
-          pdfForm.getDropdown(key).select(value);
+      }
+      case 'Dropdown': {
+        const dropdown = pdfForm.getDropdown(key);
+        const option = matchOption(value, dropdown.getOptions());
+        // Editable dropdowns take any text
+        if (option || (value && dropdown.isEditable())) {
+          dropdown.select(option || value);
+        } else if (value) {
+          unmatched(value);
         }
         break;
+      }
       default:
         break;
     }
   });
 };
 
-const renderPage = async (
+// Flattening leaves the widgets of some fields on the page
+const removeWidgets = (pdfDoc: PDFDocument) =>
+  pdfDoc.getPages().forEach((page) => {
+    const annots = page.node.Annots();
+    if (annots) {
+      const kept = annots.asArray().filter((annot) => {
+        const dict = pdfDoc.context.lookupMaybe(annot, PDFDict);
+        return dict && dict.get(PDFName.of('Subtype')) !== PDFName.of('Widget');
+      });
+      page.node.set(PDFName.of('Annots'), pdfDoc.context.obj(kept));
+    }
+  });
+
+// Fields of the copied pages are added to the output form. Combined records
+// get their number after the field names, fields with the same name would
+// share one value.
+const keepFields = (
+  source: PDFDocument,
+  target: PDFDocument,
+  pages: PDFPage[],
+  suffix?: number
+) => {
+  const { acroForm } = target.getForm();
+  const sourceForm = source.getForm().acroForm.dict;
+  // Default fonts and appearance of the fields
+  ['DR', 'DA'].forEach((key) => {
+    const name = PDFName.of(key);
+    const value = sourceForm.get(name);
+    if (value && !acroForm.dict.has(name)) {
+      acroForm.dict.set(
+        name,
+        PDFObjectCopier.for(source.context, target.context).copy(value)
+      );
+    }
+  });
+
+  const roots: PDFRef[] = [];
+  pages.forEach((page) => {
+    const annots = page.node.Annots()?.asArray() || [];
+    annots.forEach((annot) => {
+      let ref = annot;
+      let dict = target.context.lookupMaybe(ref, PDFDict);
+      if (!(ref instanceof PDFRef) || !dict) {
+        return;
+      }
+      if (dict.get(PDFName.of('Subtype')) !== PDFName.of('Widget')) {
+        return;
+      }
+      let parent = dict.get(PDFName.of('Parent'));
+      while (parent instanceof PDFRef && dict) {
+        ref = parent;
+        dict = target.context.lookupMaybe(parent, PDFDict);
+        parent = dict?.get(PDFName.of('Parent'));
+      }
+      if (ref instanceof PDFRef && !roots.includes(ref)) {
+        roots.push(ref);
+      }
+    });
+  });
+
+  roots.forEach((ref) => {
+    const dict = target.context.lookup(ref, PDFDict);
+    const name = dict.lookupMaybe(PDFName.of('T'), PDFString, PDFHexString);
+    if (name && suffix !== undefined) {
+      dict.set(
+        PDFName.of('T'),
+        PDFHexString.fromText(`${name.decodeText()}_${suffix}`)
+      );
+    }
+    acroForm.addField(ref);
+  });
+};
+
+// Objects to draw on a page, table fields once for every line. Objects
+// hidden by their rule keep their place in the table.
+const pageDraws = (
   row: RowMap,
-  page: PDFPage,
+  canvasData: CanvasObjects,
+  labels: string[],
+  lines?: RowMap[]
+) => {
+  const table = getTable(canvasData);
+  return canvasData.objects
+    .flatMap((obj) =>
+      table && inTable(table, obj)
+        ? (lines || [row]).map((line, n) => ({
+            obj,
+            line,
+            offset: n * table.rowHeight,
+          }))
+        : [{ obj, line: row, offset: 0 }]
+    )
+    .filter(({ obj, line }) =>
+      isVisible(line, labels, (obj as Fieldbox).visibility)
+    );
+};
+
+const fieldText = (o: Fieldbox, line: RowMap, labels: string[]) =>
+  o.renderType === 'template' && o.template
+    ? stripMarkup(expandTemplate(line, labels, o.template, escapeMarkup))
+    : formatValue(line, o.index, o.format);
+
+// Only templates have markup, column values are always plain text
+const fieldRuns = (o: Fieldbox, line: RowMap, labels: string[]): TextRun[] => {
+  const runs =
+    o.renderType === 'template' && o.template
+      ? parseMarkup(expandTemplate(line, labels, o.template, escapeMarkup))
+      : [{ text: formatValue(line, o.index, o.format) }];
+  return o.underline ? runs.map((r) => ({ ...r, underline: true })) : runs;
+};
+
+const styleKey = (style: TextStyle) =>
+  `${style.bold ? 'b' : ''}${style.italic ? 'i' : ''}`;
+
+// Fonts for the styles used in the runs, standard fonts have bold and italic
+// variants, other fonts are emboldened and slanted when drawn
+const runFonts = async (
+  o: Fieldbox,
+  runs: TextRun[],
   pdfDoc: PDFDocument,
-  cachedFonts: FontMap,
-  canvasData?: CanvasObjects
+  cachedFonts: FontMap
 ) => {
-  if (!canvasData) {
-    return;
+  const base = await getFont(o.fontFamily, pdfDoc, cachedFonts, o.fontFile);
+  const fonts: Record<string, RunFont> = { '': { font: base } };
+  for (let i = 0; i < runs.length; i += 1) {
+    const key = styleKey(runs[i]);
+    if (!fonts[key]) {
+      const name = o.fontFile
+        ? undefined
+        : styledFontName(o.fontFamily || StandardFonts.Helvetica, runs[i]);
+      fonts[key] = name
+        ? { font: await getFont(name, pdfDoc, cachedFonts) }
+        : { font: base, fakeBold: runs[i].bold, fakeItalic: runs[i].italic };
+    }
   }
+  return (style: TextStyle) => fonts[styleKey(style)];
+};
 
-  const { width, height } = page.getSize();
-  const ratio = width / canvasData.clientWidth;
+const fieldName = (o: Fieldbox) =>
+  o.renderType === 'template' ? o.template?.text || o.text : o.label;
 
-  for (let i = 0; i < canvasData.objects.length; i += 1) {
-    const obj = canvasData.objects[i];
-    if (obj.type?.includes('text')) {
-      const o = obj as Fieldbox;
+const fitField = (
+  o: Fieldbox,
+  runs: TextRun[],
+  fontFor: (style: TextStyle) => RunFont
+) => {
+  const size = o.fontSize || 16;
+  return fitText(
+    runs,
+    fontFor,
+    size,
+    o.width || 100,
+    o.overflow?.maxLines || boxLines(o.height || 100, size, o.lineHeight),
+    o.overflow,
+    o.charSpacing
+  );
+};
 
-      const rgbCode = hexToRgb(o.fill as string);
-      const color = rgb(rgbCode.r / 255, rgbCode.g / 255, rgbCode.b / 255);
+// Lines are placed like fabric does, from the top of the box or pushed down
+// by the free space for middle and bottom alignment
+const drawLines = (
+  page: PDFPage,
+  o: Fieldbox,
+  lines: LaidLine[],
+  size: number,
+  top: number,
+  color: Color
+) => {
+  const width = o.width || 100;
+  const free = Math.max(
+    0,
+    (o.height || 0) - textHeight(lines.length, size, o.lineHeight)
+  );
+  let factor = 0;
+  if (o.verticalAlign === 'bottom') {
+    factor = 1;
+  } else if (o.verticalAlign === 'middle') {
+    factor = 0.5;
+  }
+  const spacing = ((o.charSpacing || 0) * size) / 1000;
+
+  lines.forEach((l, n) => {
+    const y =
+      top -
+      free * factor -
+      baselineOffset(size) -
+      n * lineStep(size, o.lineHeight);
+    let x = (o.left || 0) + 1;
+    if (o.textAlign === 'right') {
+      x += width - l.width;
+    } else if (o.textAlign === 'center') {
+      x += (width - l.width) / 2;
+    }
 
-      // eslint-disable-next-line no-await-in-loop
-      const font = await getFont(o.fontFamily, pdfDoc, cachedFonts);
+    l.segments.forEach((s) => {
+      const { font, fakeBold, fakeItalic } = s.font;
+      const styled = spacing !== 0 || fakeBold;
+      if (styled) {
+        page.pushOperators(
+          pushGraphicsState(),
+          setCharacterSpacing(spacing),
+          ...(fakeBold
+            ? [
+                setTextRenderingMode(TextRenderingMode.FillAndOutline),
+                setLineWidth(size / 30),
+                setStrokingColor(color),
+              ]
+            : [])
+        );
+      }
+      page.drawText(s.text, {
+        x: x + s.x,
+        y,
+        size,
+        font,
+        color,
+        ySkew: fakeItalic ? degrees(12) : undefined,
+      });
+      if (styled) {
+        page.pushOperators(popGraphicsState());
+      }
+      if (s.underline) {
+        page.drawLine({
+          start: { x: x + s.x, y: y - size * 0.1 },
+          end: { x: x + s.x + s.width, y: y - size * 0.1 },
+          thickness: size / 15,
+          color,
+        });
+      }
+    });
+  });
+};
 
-      // FIXME: Font size is just an illusion...
-      const size = (o.fontSize || 16) * ratio;
+const renderPage = async (
+  row: RowMap,
+  page: PDFPage,
+  context: RenderContext,
+  canvasData?: CanvasObjects,
+  lines?: RowMap[]
+) => {
+  if (!canvasData) {
+    return;
+  }
 
-      // pdf-lib draw text at baseline, fabric use bounding box
-      const offset =
-        font.heightAtSize(size) - font.heightAtSize(size, { descender: false });
+  const { pdfDoc, labels, cachedFonts, reportIssue } = context;
+  const { height, matrix } = pageView(page);
 
-      const x = (o.left || 0) * ratio + 1;
-      const y =
-        height - (o.top || 0) * ratio - (o.height || 0) * ratio + offset;
+  const draws = pageDraws(row, canvasData, labels, lines);
 
-      const owidth = (o.width || 100) * ratio;
-      const oheight = (o.height || 100) * ratio;
+  page.pushOperators(
+    pushGraphicsState(),
+    concatTransformationMatrix(
+      matrix[0],
+      matrix[1],
+      matrix[2],
+      matrix[3],
+      matrix[4],
+      matrix[5]
+    )
+  );
+  for (let i = 0; i < draws.length; i += 1) {
+    const { obj, line, offset: lineOffset } = draws[i];
+    const o = obj as Fieldbox;
+    // Text boxes are laid out unrotated, then turned around their corner
+    const rotated = !!o.angle && obj.type?.includes('text');
+    if (rotated) {
+      page.pushOperators(
+        pushGraphicsState(),
+        rotateAround(
+          o.left || 0,
+          height - ((o.top || 0) + lineOffset),
+          o.angle || 0
+        )
+      );
+    }
 
-      let alignment = TextAlignment.Left;
-      if (o.textAlign === 'right') {
-        alignment = TextAlignment.Right;
-      } else if (o.textAlign === 'center') {
-        alignment = TextAlignment.Center;
+    if (obj.type === 'image') {
+      await renderStatic(obj as Image, page, height, context);
+    } else if (o.renderType === 'shape') {
+      const top = (obj.top || 0) + lineOffset;
+      renderShape({ ...obj, top } as CanvasObject, page, height);
+    } else if (obj.type?.includes('text') && o.renderType === 'image') {
+      const source = formatValue(line, o.index, o.format).trim();
+      // Image boxes can be stretched vertically in the editor
+      const boxHeight = (o.height || 0) * (o.scaleY || 1);
+      if (source) {
+        await renderImage(
+          source,
+          page,
+          {
+            x: o.left || 0,
+            y: height - ((o.top || 0) + lineOffset) - boxHeight,
+            width: o.width || 100,
+            height: boxHeight,
+          },
+          context,
+          o.image
+        );
       }
+    } else if (obj.type?.includes('text')) {
+      const rgbCode = hexToRgb(o.fill as string);
+      const color = rgb(rgbCode.r / 255, rgbCode.g / 255, rgbCode.b / 255);
 
-      const text = String(row[o.index]);
-      if (o.renderType === 'qrcode') {
-        const dataURL = await QRCode.toDataURL(text, {
-          width: owidth,
-        });
-        const pngImage = await pdfDoc.embedPng(dataURL);
-        page.drawImage(pngImage, {
-          x,
-          y: y - owidth + oheight,
-        });
+      const top = height - ((o.top || 0) + lineOffset);
+      const x = (o.left || 0) + 1;
+      const owidth = o.width || 100;
+
+      const text = fieldText(o, line, labels);
+      const barcode = getBarcodeType(o.renderType);
+      if (barcode) {
+        try {
+          // Nothing to encode in empty cells
+          if (text) {
+            const pngImage = await pdfDoc.embedPng(
+              await barcodeImage(text, barcode, owidth, o.barcode)
+            );
+            const imageHeight = pngImage.height * (owidth / pngImage.width);
+            // pdf-lib draw text at baseline, fabric use bounding box
+            const font = await getFont(
+              o.fontFamily,
+              pdfDoc,
+              cachedFonts,
+              o.fontFile
+            );
+            const size = o.fontSize || 16;
+            const offset =
+              font.heightAtSize(size) -
+              font.heightAtSize(size, { descender: false });
+            page.drawImage(pngImage, {
+              x,
+              y: top + offset - imageHeight,
+              width: owidth,
+              height: imageHeight,
+            });
+          }
+        } catch (e) {
+          const reason = `${e.message || e}`.replace(
+            /^bwipp\.\w+(#\d+)?:\s*/,
+            ''
+          );
+          reportIssue(`${barcode.label} can't encode "${text}": ${reason}`);
+        }
       } else {
-        const multiText = layoutMultilineText(text || '', {
-          font,
-          fontSize: size,
-          bounds: {
-            x,
-            y,
-            width: owidth,
-            height: oheight,
-          },
-          alignment,
-        });
+        const runs = fieldRuns(o, line, labels);
+        const fitted = fitField(
+          o,
+          runs,
+          await runFonts(o, runs, pdfDoc, cachedFonts)
+        );
+        if (!fitted.fits && o.overflow?.mode) {
+          const message = `"${text.slice(
+            0,
+            50
+          )}" doesn't fit in field "${fieldName(o)}"`;
+          if (o.overflow.mode === 'fail') {
+            throw new RowError(message);
+          }
+          reportIssue(message);
+        }
 
-        multiText.lines.forEach((p) => {
-          page.drawText(p.text, {
-            x: p.x,
-            y: p.y,
-            lineHeight: o.lineHeight,
-            size,
-            font,
-            maxWidth: owidth,
-            color,
-          });
-        });
+        drawLines(page, o, fitted.lines, fitted.size, top, color);
       }
     }
+
+    if (rotated) {
+      page.pushOperators(popGraphicsState());
+    }
   }
+  page.pushOperators(popGraphicsState());
 };
 
 export const loadForm = async (filename: string) => {
@@ -285,10 +1144,280 @@ export const loadForm = async (filename: string) => {
     .map((fld) => ({
       name: fld.getName(),
       type: getFieldType(fld),
+      options:
+        fld instanceof PDFRadioGroup ||
+        fld instanceof PDFDropdown ||
+        fld instanceof PDFOptionList
+          ? fld.getOptions()
+          : undefined,
     }))
     .filter((v) => v.type);
 };
 
+export interface OverflowIssue {
+  record: number;
+  page: number;
+  field: string;
+  value: string;
+}
+
+// Every text value that doesn't fit its field at the designed size, checked
+// before merging so the data can be fixed first
+export const checkOverflow = async (
+  pdfFile: string,
+  excelFile: string,
+  rowsLimit: number,
+  canvasData?: CanvasMap,
+  dataOptions?: DataOptions,
+  variants?: TemplateChoice<CanvasMap>
+) => {
+  const { labels, groups } = readGroups(excelFile, rowsLimit, dataOptions);
+  const pickTemplate = await loadTemplates(
+    labels,
+    pdfFile,
+    canvasData,
+    undefined,
+    variants
+  );
+  // Fonts are only measured, they all go in one document
+  const pdfDoc = await PDFDocument.create();
+  const cachedFonts: FontMap = {};
+  const found: OverflowIssue[] = [];
+
+  for (let i = 0; i < groups.length; i += 1) {
+    const group = groups[i];
+    const { boundCanvas } = pickTemplate(group[0]);
+    const pages = Object.keys(boundCanvas || {}).map((p) => parseInt(p, 10));
+    for (let j = 0; j < pages.length; j += 1) {
+      const data = (boundCanvas as CanvasMap)[pages[j]];
+      const chunks = isVisible(group[0], labels, data.visibility)
+        ? splitLines(group, data)
+        : [];
+      for (let k = 0; k < chunks.length; k += 1) {
+        const draws = pageDraws(group[0], data, labels, chunks[k]).filter(
+          ({ obj }) =>
+            obj.type?.includes('text') &&
+            !['image', 'table', 'shape'].includes(
+              (obj as Fieldbox).renderType
+            ) &&
+            !getBarcodeType((obj as Fieldbox).renderType)
+        );
+        for (let n = 0; n < draws.length; n += 1) {
+          const o = draws[n].obj as Fieldbox;
+          const text = fieldText(o, draws[n].line, labels);
+          if (text) {
+            const runs = fieldRuns(o, draws[n].line, labels);
+            const fontFor = await runFonts(o, runs, pdfDoc, cachedFonts);
+            if (fitField(o, runs, fontFor).overflows) {
+              found.push({
+                record: i + 1,
+                page: pages[j],
+                field: fieldName(o) || '',
+                value: text,
+              });
+            }
+          }
+        }
+      }
+    }
+  }
+  return found;
+};
+
+// Columns with only yes and no values, numbers alone could be quantities
+const checkColumns = (labels: string[], rows: RowMap[]) =>
+  labels.filter((_l, index) => {
+    const values = rows
+      .map((r) => formatValue(r, index))
+      .filter((v) => v.trim());
+    return (
+      values.length > 0 &&
+      values.every((v) => isChecked(v) !== undefined) &&
+      values.some((v) => Number.isNaN(Number(v)))
+    );
+  });
+
+const fieldAlignment = (align?: string) => {
+  if (align === 'center') {
+    return TextAlignment.Center;
+  }
+  return align === 'right' ? TextAlignment.Right : TextAlignment.Left;
+};
+
+// A copy of the template with the canvas fields as form fields, named after
+// their columns so the copy can be mapped in the form layout. Table fields
+// get a field for every line. Returns the number of fields.
+export const exportForm = async (
+  pdfFile: string,
+  output: string,
+  excelFile: string,
+  rowsLimit: number,
+  canvasData?: CanvasMap,
+  dataOptions?: DataOptions
+) => {
+  const pdfDoc = await PDFDocument.load(await readFile(pdfFile));
+  const form = pdfDoc.getForm();
+  const { labels, rows } = readSheet(excelFile, rowsLimit, dataOptions);
+  const checkboxes = checkColumns(labels, rows);
+  const boundCanvas = pointCanvasData(pdfDoc, canvasData);
+  // Fonts are embedded whole, people filling in the form type any character
+  const cachedFonts: FontMap = {};
+  const embed = async (o: Fieldbox) => {
+    const name = o.fontFile
+      ? o.fontFile
+      : styledFontName(o.fontFamily || StandardFonts.Helvetica, {
+          bold: o.fontWeight === 'bold',
+          italic: o.fontStyle === 'italic',
+        }) || StandardFonts.Helvetica;
+    if (!cachedFonts[name]) {
+      if (o.fontFile) {
+        pdfDoc.registerFontkit(fontkit);
+      }
+      cachedFonts[name] = await pdfDoc.embedFont(
+        o.fontFile ? await readFile(o.fontFile) : name
+      );
+    }
+    return cachedFonts[name];
+  };
+  // Fields bound the same way share one form field and its value
+  const fieldNames: Record<string, string> = {};
+  const uniqueName = (key: string, title: string) => {
+    if (!fieldNames[key]) {
+      const base = title.replace(/\./g, '_').trim() || 'Field';
+      const taken = Object.values(fieldNames);
+      let name = base;
+      for (let n = 2; taken.includes(name); n += 1) {
+        name = `${base} ${n}`;
+      }
+      fieldNames[key] = name;
+    }
+    return fieldNames[key];
+  };
+  let count = 0;
+
+  const pages = pdfDoc.getPages();
+  for (let pageIndex = 0; pageIndex < pages.length; pageIndex += 1) {
+    const data = boundCanvas?.[pageIndex + 1];
+    const page = pages[pageIndex];
+    const { height, matrix } = pageView(page);
+    const [a, b, c, d, e, f] = matrix;
+    const rotate = degrees(page.getRotation().angle);
+    // Canvas boxes in the page space, turned with the page
+    const widgetRect = (left: number, top: number, w: number, h: number) => {
+      const corners = [
+        [left, height - top - h],
+        [left + w, height - top],
+      ].map(([x, y]) => [a * x + c * y + e, b * x + d * y + f]);
+      const x = Math.min(corners[0][0], corners[1][0]);
+      const y = Math.min(corners[0][1], corners[1][1]);
+      return {
+        x,
+        y,
+        width: Math.max(corners[0][0], corners[1][0]) - x,
+        height: Math.max(corners[0][1], corners[1][1]) - y,
+        rotate,
+      };
+    };
+
+    const table = data && getTable(data);
+    const tableLines = table
+      ? Math.max(1, Math.floor((table.bottom - table.top) / table.rowHeight))
+      : 1;
+    const objects = (data?.objects || []).filter(
+      (obj) =>
+        obj.type?.includes('text') &&
+        !['table', 'shape', 'static'].includes((obj as Fieldbox).renderType)
+    );
+    for (let i = 0; i < objects.length; i += 1) {
+      const o = objects[i] as Fieldbox;
+      const repeated = !!table && inTable(table, o);
+      const title =
+        o.renderType === 'template'
+          ? templateLabels(o.template?.text || o.text || '').join(' ')
+          : o.label || '';
+      const placeholder =
+        o.renderType === 'image' || !!getBarcodeType(o.renderType);
+      let kind = placeholder ? 'button' : 'text';
+      if (
+        !placeholder &&
+        o.renderType !== 'template' &&
+        !o.format &&
+        checkboxes.includes(title)
+      ) {
+        kind = 'checkbox';
+      }
+      const key = `${kind}:${
+        o.renderType === 'template' ? o.template?.text : o.label
+      }`;
+      const boxHeight = (o.height || 0) * (o.scaleY || 1);
+      const size = o.fontSize || 16;
+
+      for (let line = 0; line < (repeated ? tableLines : 1); line += 1) {
+        const top = (o.top || 0) + (table ? line * table.rowHeight : 0);
+        const name = repeated
+          ? `${uniqueName(key, title)}_${line + 1}`
+          : uniqueName(key, title);
+        const rect = widgetRect(o.left || 0, top, o.width || 100, boxHeight);
+
+        const existing = form.getFieldMaybe(name);
+        count += existing ? 0 : 1;
+        if (kind === 'button') {
+          // Images and barcodes can't be filled in, the button marks the spot
+          const button = existing
+            ? form.getButton(name)
+            : form.createButton(name);
+          button.addToPage(title, page, {
+            ...rect,
+            borderWidth: 1,
+            borderColor: rgb(0.6, 0.6, 0.6),
+            backgroundColor: rgb(0.95, 0.95, 0.95),
+          });
+        } else if (kind === 'checkbox') {
+          const checkBox = existing
+            ? form.getCheckBox(name)
+            : form.createCheckBox(name);
+          const side = Math.min(rect.width, rect.height, size * 1.2);
+          checkBox.addToPage(page, {
+            ...rect,
+            width: side,
+            height: side,
+            backgroundColor: undefined,
+          });
+        } else {
+          const textField = existing
+            ? form.getTextField(name)
+            : form.createTextField(name);
+          const font = await embed(o);
+          const color = hexToRgb(o.fill as string);
+          textField.addToPage(page, {
+            ...rect,
+            font,
+            textColor: rgb(color.r / 255, color.g / 255, color.b / 255),
+            backgroundColor: undefined,
+            borderColor: undefined,
+            borderWidth: 0,
+          });
+          if (!existing) {
+            textField.setFontSize(size);
+            textField.setAlignment(fieldAlignment(o.textAlign));
+            if (
+              (o.overflow?.maxLines ||
+                boxLines(boxHeight, size, o.lineHeight)) > 1
+            ) {
+              textField.enableMultiline();
+            }
+          }
+          // Saving would redraw changed fields in Helvetica
+          textField.updateAppearances(font);
+        }
+      }
+    }
+  }
+
+  await promisify(fs.writeFile)(output, await pdfDoc.save());
+  return count;
+};
+
 const renderPdf = async (
   output: string,
   pdfFile: string,
@@ -298,75 +1427,200 @@ const renderPdf = async (
   saveFile: (
     filename: string,
     content: Uint8Array,
-    rowData?: RowMap
+    rowData?: RowMap,
+    record?: number
   ) => Promise<void>,
   updateProgress: (page: number, total: number, rowData?: RowMap) => void,
   canvasData?: CanvasMap,
-  formData?: FormMap
+  formData?: FormMap,
+  dataOptions?: DataOptions,
+  // Problems with a single record, the merge carries on without that value
+  reportIssue: (record: number, message: string) => void = () => {},
+  // Indexes of the records to merge, all of them when not set
+  sample?: (groups: RowMap[][]) => number[],
+  formMode: FormMode = 'flatten',
+  variants?: TemplateChoice<CanvasMap>,
+  inserts: PdfInsert[] = [],
+  // Names of the separate files, numbered after the output when not set
+  naming?: FileNaming
 ) => {
-  const pdfBuff = await readFile(pdfFile);
-  let pdfDoc = await PDFDocument.load(pdfBuff);
   let newDoc = await PDFDocument.create();
-  let cachedFonts: FontMap = {};
-
-  const rows: RowMap[] = readFirstSheet(excelFile, rowsLimit);
-  for (let i = 0; i < rows.length; i += 1) {
-    // Step 1: Render pages with form
-    renderForm(rows[i], formData, pdfDoc.getForm());
-
-    // Step 2: Render pages with canvas for now
-    if (canvasData) {
-      await Promise.all(
-        pdfDoc.getPageIndices().map(async (pageIndex) => {
-          if (canvasData[pageIndex + 1]) {
-            const page = pdfDoc.getPage(pageIndex);
-            await renderPage(
-              rows[i],
-              page,
-              pdfDoc,
-              cachedFonts,
-              canvasData[pageIndex + 1]
-            );
-          }
-        })
-      );
+
+  const sheet = readGroups(excelFile, rowsLimit, dataOptions);
+  const { labels } = sheet;
+  const fileTemplate = naming?.template.trim();
+  const missing = fileTemplate && missingFileLabel(labels, fileTemplate);
+  if (missing) {
+    throw new Error(
+      `Column "${missing}" of the file name is missing from the Excel file`
+    );
+  }
+  const picked = sample ? sample(sheet.groups) : sheet.groups.map((_g, i) => i);
+  const groups = picked.map((n) => sheet.groups[n]);
+  // Records keep their number in the data when only some are merged
+  const recordNumber = (i: number) => picked[i] + 1;
+  const pickTemplate = await loadTemplates(
+    labels,
+    pdfFile,
+    canvasData,
+    formData,
+    variants
+  );
+  const insertDocs: { doc: PDFDocument; position: InsertPosition }[] = [];
+  for (let i = 0; i < inserts.length; i += 1) {
+    const { file, position } = inserts[i];
+    try {
+      insertDocs.push({
+        doc: await PDFDocument.load(await readFile(file)),
+        position,
+      });
+    } catch (e) {
+      throw new Error(`Can't read the PDF "${file}": ${e.message}`);
+    }
+  }
+  const addInserts = async (position: InsertPosition) => {
+    const docs = insertDocs.filter((d) => d.position === position);
+    for (let i = 0; i < docs.length; i += 1) {
+      const { doc } = docs[i];
+      const pages = await newDoc.copyPages(doc, doc.getPageIndices());
+      pages.forEach((p) => newDoc.addPage(p));
     }
+  };
+  let created = 0;
 
-    // Step 3: Copy to new pdf, load and save will remove fields, but retain value
-    const newPages = await newDoc.copyPages(
-      await PDFDocument.load(await pdfDoc.save()),
-      pdfDoc.getPageIndices()
+  const outputs = output.split('.');
+  const baseName = outputs.slice(0, outputs.length - 1).join('.');
+  const fileEx = outputs[outputs.length - 1];
+  const saved = new Set<string>();
+  const recordFile = (row: RowMap, i: number) => {
+    const name = fileTemplate && expandFileName(row, labels, fileTemplate);
+    if (!name) {
+      return `${baseName}-${recordNumber(i)}.${fileEx}`;
+    }
+    const file = path.join(
+      path.dirname(output),
+      /\.pdf$/i.test(name) ? name : `${name}.pdf`
     );
+    let unique = file;
+    for (
+      let n = 2;
+      naming?.collision !== 'overwrite' &&
+      (saved.has(unique) || fs.existsSync(unique));
+      n += 1
+    ) {
+      unique = numberedFile(file, n);
+    }
+    saved.add(unique);
+    return unique;
+  };
 
-    newPages.forEach((p) => newDoc.addPage(p));
-    updateProgress(i + 1, rows.length, rows[i]);
+  for (let i = 0; i < groups.length; i += 1) {
+    const group = groups[i];
+    const row = group[0];
+    const { pdfBuff, templateDoc, boundCanvas, boundForm } = pickTemplate(row);
+    const pdfDoc = await PDFDocument.load(pdfBuff);
+    const context: RenderContext = {
+      pdfDoc,
+      labels,
+      cachedFonts: {},
+      cachedImages: {},
+      dataDir: path.dirname(excelFile),
+      reportIssue: (message) => reportIssue(recordNumber(i), message),
+    };
 
-    if (!combinePdf) {
-      const pdfBytes = await newDoc.save();
-      const outputs = output.split('.');
+    let skipped = false;
+    // Pages left out of this record by their rules
+    const hidden: number[] = [];
+    try {
+      // Step 1: Render pages with form
+      renderForm(row, labels, context.reportIssue, boundForm, pdfDoc.getForm());
+
+      // Step 2: Render pages with canvas, table lines that don't fit continue
+      // on copies of the same page
+      if (boundCanvas) {
+        const pageCount = pdfDoc.getPageCount();
+        let inserted = 0;
+        for (let pageIndex = 0; pageIndex < pageCount; pageIndex += 1) {
+          const data = boundCanvas[pageIndex + 1];
+          if (data && !isVisible(row, labels, data.visibility)) {
+            hidden.push(pageIndex + inserted);
+          } else if (data) {
+            const chunks = splitLines(group, data);
+            for (let c = 0; c < chunks.length; c += 1) {
+              let page = pdfDoc.getPage(pageIndex + inserted);
+              if (c > 0) {
+                const [copy] = await pdfDoc.copyPages(templateDoc, [pageIndex]);
+                inserted += 1;
+                page = pdfDoc.insertPage(pageIndex + inserted, copy);
+              }
+              await renderPage(row, page, context, data, chunks[c]);
+            }
+          }
+        }
+        if (hidden.length === pdfDoc.getPageCount()) {
+          throw new RowError('All pages are hidden by their rules');
+        }
+      }
+    } catch (e) {
+      if (!(e instanceof RowError)) {
+        throw e;
+      }
+      reportIssue(recordNumber(i), `${e.message}, the record was skipped`);
+      skipped = true;
+    }
 
-      const baseName = outputs.slice(0, outputs.length - 1).join('.');
-      const fileEx = outputs[outputs.length - 1];
-      const outputName = `${baseName}-${i + 1}.${fileEx}`;
+    if (!skipped) {
+      // Step 3: Copy to new pdf, fields are flattened into the page or added
+      // to the new form
+      const form = pdfDoc.getForm();
+      if (formMode === 'flatten') {
+        form.flatten();
+        removeWidgets(pdfDoc);
+      } else if (formMode === 'readonly') {
+        form.getFields().forEach((f) => f.enableReadOnly());
+      }
+      const filled = await PDFDocument.load(await pdfDoc.save());
+      await addInserts('before');
+      const newPages = await newDoc.copyPages(
+        filled,
+        pdfDoc.getPageIndices().filter((n) => !hidden.includes(n))
+      );
 
-      await saveFile(outputName, pdfBytes, rows[i]);
+      newPages.forEach((p) => newDoc.addPage(p));
+      if (formMode !== 'flatten') {
+        keepFields(
+          filled,
+          newDoc,
+          newPages,
+          combinePdf ? recordNumber(i) : undefined
+        );
+      }
+      await addInserts('after');
+      created += 1;
+    }
+    updateProgress(i + 1, groups.length, row);
+
+    if (!skipped && !combinePdf) {
+      const pdfBytes = await newDoc.save();
+      const outputName = recordFile(row, i);
+
+      await saveFile(outputName, pdfBytes, row, recordNumber(i));
 
       // Reset
       newDoc = await PDFDocument.create();
-      cachedFonts = {};
     }
-
-    // Load old doc again
-    pdfDoc = await PDFDocument.load(pdfBuff);
   }
 
   if (combinePdf) {
+    if (!created) {
+      return 0;
+    }
     const pdfBytes = await newDoc.save();
     await saveFile(output, pdfBytes);
     return 1;
   }
 
-  return rows.length;
+  return created;
 };
 
 export default renderPdf;